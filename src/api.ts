@@ -0,0 +1,108 @@
+import type { EventBus, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { flattenSteps, type TodoItem } from "./utils";
+
+export const PLAN_API_VERSION = 1;
+
+/** Event-bus channel other extensions emit on to obtain the `PlanApi` (see `requestPlanApi`). */
+export const PLAN_API_REQUEST_EVENT = "pi-plan:api-request";
+
+export const PLAN_EVENTS = {
+	proposed: "pi-plan:proposed",
+	approved: "pi-plan:approved",
+	stepCompleted: "pi-plan:step-completed",
+	executionFinished: "pi-plan:execution-finished",
+	exited: "pi-plan:exited",
+} as const;
+
+export type PlanPhase = "off" | "planning" | "executing" | "verifying";
+
+export type PlanStepStatus = "open" | "done" | "blocked" | "skipped";
+
+export interface PlanStepState {
+	id: string;
+	text: string;
+	status: PlanStepStatus;
+	files: string[];
+	validation: string[];
+	risks: string[];
+	note?: string;
+	children: PlanStepState[];
+}
+
+export interface PlanState {
+	phase: PlanPhase;
+	stepwise: boolean;
+	/** Active plan template, or null for the default one. */
+	template: string | null;
+	revision: number | null;
+	steps: PlanStepState[];
+	/** Counts leaf steps only; skipped steps count as completed. */
+	progress: { completed: number; total: number };
+}
+
+export type PlanModeRequest = "plan" | "yolo" | "approve" | "approve-stepwise";
+
+export interface PlanApi {
+	version: typeof PLAN_API_VERSION;
+	getState(): PlanState;
+	/** Same effect as `/plan on`, `/plan off`, and `/plan approve [--stepwise]`; returns an error message when refused. */
+	requestModeChange(ctx: ExtensionContext, request: PlanModeRequest): Promise<string | undefined>;
+}
+
+export interface PlanEventPayloads {
+	[PLAN_EVENTS.proposed]: { state: PlanState; revision: number };
+	[PLAN_EVENTS.approved]: { state: PlanState; stepwise: boolean };
+	[PLAN_EVENTS.stepCompleted]: { state: PlanState; step: PlanStepState };
+	[PLAN_EVENTS.executionFinished]: { state: PlanState; summary: string };
+	[PLAN_EVENTS.exited]: { state: PlanState };
+}
+
+export type PlanEventName = keyof PlanEventPayloads;
+
+export interface PlanApiRequest {
+	respond(api: PlanApi): void;
+}
+
+export function toPlanStepState(item: TodoItem): PlanStepState {
+	return {
+		id: item.id,
+		text: item.text,
+		status: item.skipped ? "skipped" : item.completed ? "done" : item.blocked ? "blocked" : "open",
+		files: [...item.files],
+		validation: [...item.validation],
+		risks: [...item.risks],
+		note: item.note,
+		children: item.children.map(toPlanStepState),
+	};
+}
+
+export function getPlanProgress(items: TodoItem[]): PlanState["progress"] {
+	const leaves = flattenSteps(items).filter((item) => item.children.length === 0);
+	return {
+		completed: leaves.filter((item) => item.completed).length,
+		total: leaves.length,
+	};
+}
+
+/**
+ * Returns the plan API when pi-plan is loaded in the same session. Call it from an event
+ * handler or command rather than the extension factory, since extensions load in order.
+ */
+export function requestPlanApi(events: EventBus): PlanApi | undefined {
+	let api: PlanApi | undefined;
+	const request: PlanApiRequest = {
+		respond: (provided) => {
+			api = provided;
+		},
+	};
+	events.emit(PLAN_API_REQUEST_EVENT, request);
+	return api;
+}
+
+export function onPlanEvent<Name extends PlanEventName>(
+	events: EventBus,
+	name: Name,
+	handler: (payload: PlanEventPayloads[Name]) => void,
+): () => void {
+	return events.on(name, (data) => handler(data as PlanEventPayloads[Name]));
+}
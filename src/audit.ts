@@ -0,0 +1,82 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+
+export const BLOCKED_ACTION_ENTRY_TYPE = "pi-plan-blocked";
+
+export interface BlockedAction {
+	timestamp: number;
+	tool: string;
+	input: unknown;
+	/** Guard rule that matched, e.g. `read-only command allowlist`. */
+	rule: string;
+	reason?: string;
+	revision: number | null;
+}
+
+export function getBlockedActionLogPath(cwd: string): string {
+	return join(cwd, ".pi", "pi-plan-blocked.jsonl");
+}
+
+export function appendBlockedActionLog(cwd: string, action: BlockedAction): string | undefined {
+	const path = getBlockedActionLogPath(cwd);
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		appendFileSync(path, `${JSON.stringify(action)}\n`, "utf8");
+		return undefined;
+	} catch (error) {
+		return `${path}: ${(error as Error).message}`;
+	}
+}
+
+function isBlockedAction(value: unknown): value is BlockedAction {
+	const candidate = value as Partial<BlockedAction> | null;
+	return (
+		typeof candidate === "object" &&
+		candidate !== null &&
+		typeof candidate.timestamp === "number" &&
+		typeof candidate.tool === "string" &&
+		typeof candidate.rule === "string" &&
+		(candidate.reason === undefined || typeof candidate.reason === "string")
+	);
+}
+
+export function collectBlockedActions(entries: SessionEntry[]): BlockedAction[] {
+	return entries.flatMap((entry) =>
+		entry.type === "custom" &&
+		entry.customType === BLOCKED_ACTION_ENTRY_TYPE &&
+		isBlockedAction(entry.data)
+			? [{ ...entry.data, revision: entry.data.revision ?? null }]
+			: [],
+	);
+}
+
+function describeInput(action: BlockedAction): string {
+	const input = action.input as { command?: unknown; path?: unknown } | null;
+	if (typeof input?.command === "string") return input.command;
+	if (typeof input?.path === "string") return input.path;
+	const serialized = JSON.stringify(action.input) ?? "";
+	return serialized.length > 80 ? `${serialized.slice(0, 79)}…` : serialized;
+}
+
+export function summarizeBlockedActions(actions: BlockedAction[]): string | undefined {
+	if (actions.length === 0) {
+		return undefined;
+	}
+	const commands = actions.filter((action) => action.tool === "bash").length;
+	const tools = actions.length - commands;
+	const parts = [
+		commands > 0 ? `${commands} command${commands === 1 ? "" : "s"}` : undefined,
+		tools > 0 ? `${tools} tool call${tools === 1 ? "" : "s"}` : undefined,
+	].filter((part): part is string => part !== undefined);
+	return `${parts.join(" and ")} blocked (see /plan blocked)`;
+}
+
+export function formatBlockedActions(actions: BlockedAction[]): string {
+	const lines = actions.map((action, index) => {
+		const time = new Date(action.timestamp).toLocaleTimeString();
+		const revision = action.revision === null ? "" : ` · r${action.revision}`;
+		return `${index + 1}. ${time}${revision} · ${action.tool}: ${describeInput(action)}\n   Rule: ${action.rule}${action.reason ? `\n   Reason: ${action.reason}` : ""}`;
+	});
+	return `Blocked actions (${actions.length}):\n${lines.join("\n")}`;
+}
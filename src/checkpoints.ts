@@ -0,0 +1,210 @@
+import { execFile } from "node:child_process";
+import { copyFileSync, existsSync, mkdtempSync, rmSync, unlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { isAbsolute, join } from "node:path";
+import { getBlockedActionLogPath } from "./audit";
+import { getPlanLibraryDirectory } from "./library";
+import { getPolicyPaths } from "./policy";
+import { getExecutionSummaryPath } from "./report";
+import { getTemplateDirectory } from "./templates";
+
+export const CHECKPOINT_REF_PREFIX = "refs/pi-plan/checkpoints";
+
+export interface PlanCheckpoint {
+	id: number;
+	label: string;
+	/** First open step when the checkpoint was taken; null once every step was done. */
+	beforeStep: string | null;
+	/** Commit whose tree is the full working tree (tracked and untracked, minus ignored files). */
+	commit: string;
+	head: string | null;
+	createdAt: number;
+}
+
+const GIT_TIMEOUT_MS = 30_000;
+
+function runGit(cwd: string, args: string[], env: NodeJS.ProcessEnv = {}): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			"git",
+			args,
+			{
+				cwd,
+				env: { ...process.env, ...env },
+				timeout: GIT_TIMEOUT_MS,
+				maxBuffer: 16 * 1024 * 1024,
+			},
+			(error, stdout, stderr) => {
+				if (error) {
+					reject(new Error(`git ${args[0]}: ${stderr.trim() || error.message}`));
+					return;
+				}
+				resolve(stdout.trim());
+			},
+		);
+	});
+}
+
+async function getHead(cwd: string): Promise<string | null> {
+	try {
+		return await runGit(cwd, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+	} catch {
+		return null;
+	}
+}
+
+/** Runs `action` against a throwaway index seeded from the real one, so the user's staging area is untouched. */
+async function withTemporaryIndex<T>(
+	cwd: string,
+	action: (env: NodeJS.ProcessEnv) => Promise<T>,
+): Promise<T> {
+	const directory = mkdtempSync(join(tmpdir(), "pi-plan-index-"));
+	const indexPath = join(directory, "index");
+	try {
+		const realIndex = await runGit(cwd, ["rev-parse", "--git-path", "index"]);
+		const realIndexPath = isAbsolute(realIndex) ? realIndex : join(cwd, realIndex);
+		if (existsSync(realIndexPath)) {
+			copyFileSync(realIndexPath, indexPath);
+		}
+		return await action({ GIT_INDEX_FILE: indexPath });
+	} finally {
+		rmSync(directory, { recursive: true, force: true });
+	}
+}
+
+/** pi-plan's own files; checkpoints leave them out so a rollback keeps saved plans, policy, and logs. */
+function getPlanStatePaths(cwd: string): string[] {
+	return [
+		getPolicyPaths(cwd).project,
+		getPlanLibraryDirectory(cwd),
+		getTemplateDirectory(cwd),
+		getExecutionSummaryPath(cwd),
+		getBlockedActionLogPath(cwd),
+	];
+}
+
+async function dropPlanStatePaths(cwd: string, env: NodeJS.ProcessEnv): Promise<void> {
+	await runGit(
+		cwd,
+		["rm", "-r", "--cached", "--quiet", "--ignore-unmatch", "--", ...getPlanStatePaths(cwd)],
+		{ ...env, GIT_LITERAL_PATHSPECS: "1" },
+	);
+}
+
+async function snapshotWorkingTree(cwd: string): Promise<string> {
+	return withTemporaryIndex(cwd, async (env) => {
+		await runGit(cwd, ["add", "--all"], env);
+		await dropPlanStatePaths(cwd, env);
+		return runGit(cwd, ["write-tree"], env);
+	});
+}
+
+export async function isGitRepository(cwd: string): Promise<boolean> {
+	try {
+		return (await runGit(cwd, ["rev-parse", "--is-inside-work-tree"])) === "true";
+	} catch {
+		return false;
+	}
+}
+
+export async function createCheckpoint(
+	cwd: string,
+	id: number,
+	label: string,
+	beforeStep: string | null,
+): Promise<PlanCheckpoint> {
+	const createdAt = Date.now();
+	const head = await getHead(cwd);
+	const tree = await snapshotWorkingTree(cwd);
+	const commit = await runGit(cwd, [
+		"commit-tree",
+		tree,
+		...(head ? ["-p", head] : []),
+		"-m",
+		`pi-plan checkpoint ${id}: ${label}`,
+	]);
+	await runGit(cwd, ["update-ref", `${CHECKPOINT_REF_PREFIX}/${createdAt}`, commit]);
+	return { id, label, beforeStep, commit, head, createdAt };
+}
+
+/** Removes the checkpoint refs so git can collect the commits; refs that are already gone are skipped. */
+export async function deleteCheckpoints(cwd: string, checkpoints: PlanCheckpoint[]): Promise<void> {
+	for (const checkpoint of checkpoints) {
+		try {
+			await runGit(cwd, ["update-ref", "-d", `${CHECKPOINT_REF_PREFIX}/${checkpoint.createdAt}`]);
+		} catch {
+			// The ref was deleted by hand or the directory is no longer a repository.
+		}
+	}
+}
+
+/** Lists what changed in the working tree since the checkpoint (`git diff --stat` format). */
+export async function diffCheckpoint(cwd: string, checkpoint: PlanCheckpoint): Promise<string> {
+	const current = await snapshotWorkingTree(cwd);
+	const stat = await runGit(cwd, ["diff", "--stat", `${checkpoint.commit}^{tree}`, current]);
+	const headMoved = checkpoint.head !== (await getHead(cwd));
+	return [
+		stat || "(no file changes)",
+		headMoved ? `HEAD moves back to ${checkpoint.head?.slice(0, 12) ?? "(no commit)"}` : "",
+	]
+		.filter((line) => line.length > 0)
+		.join("\n");
+}
+
+export async function restoreCheckpoint(cwd: string, checkpoint: PlanCheckpoint): Promise<void> {
+	const current = await snapshotWorkingTree(cwd);
+	const added = await runGit(cwd, [
+		"diff",
+		"--name-only",
+		"--no-renames",
+		"--diff-filter=A",
+		"-z",
+		`${checkpoint.commit}^{tree}`,
+		current,
+	]);
+	const topLevel = await runGit(cwd, ["rev-parse", "--show-toplevel"]);
+	for (const path of added.split("\0").filter((entry) => entry.length > 0)) {
+		unlinkSync(join(topLevel, path));
+	}
+
+	await withTemporaryIndex(cwd, async (env) => {
+		await runGit(cwd, ["read-tree", `${checkpoint.commit}^{tree}`], env);
+		await dropPlanStatePaths(cwd, env);
+		await runGit(topLevel, ["checkout-index", "--all", "--force"], env);
+	});
+
+	if (checkpoint.head && checkpoint.head !== (await getHead(cwd))) {
+		await runGit(cwd, ["reset", "--quiet", "--mixed", checkpoint.head]);
+	}
+}
+
+/** Whether `args` fit `/plan rollback [step] [--yes]`, with a step id such as `3` or `2.1.`. */
+export function isRollbackArgs(args: string[]): boolean {
+	const stepArgs = args.filter((arg) => arg !== "--yes");
+	return (
+		args.length - stepArgs.length <= 1 &&
+		stepArgs.length <= 1 &&
+		stepArgs.every((arg) => /^\d+(?:\.\d+)*[.)]?$/.test(arg))
+	);
+}
+
+export function findRollbackCheckpoint(
+	checkpoints: PlanCheckpoint[],
+	step?: string,
+): PlanCheckpoint | undefined {
+	if (!step) {
+		return checkpoints.at(-1);
+	}
+	return [...checkpoints].reverse().find((checkpoint) => checkpoint.beforeStep === step);
+}
+
+export function formatCheckpoints(checkpoints: PlanCheckpoint[]): string {
+	const lines = checkpoints.map((checkpoint) => {
+		const time = new Date(checkpoint.createdAt).toLocaleTimeString();
+		const before = checkpoint.beforeStep
+			? `before step ${checkpoint.beforeStep}`
+			: "after the last step";
+		return `${checkpoint.id}. ${time} · ${checkpoint.label} · ${before} · ${checkpoint.commit.slice(0, 12)}`;
+	});
+	return `Plan checkpoints (${checkpoints.length}):\n${lines.join("\n")}`;
+}
@@ -0,0 +1,110 @@
+import type { PlanTemplate } from "./templates";
+import { escapeRegExp } from "./utils";
+
+export type ContractSectionStatus = "ok" | "missing" | "empty";
+
+export interface ContractSection {
+	heading: string;
+	status: ContractSectionStatus;
+}
+
+export interface ContractReport {
+	sections: ContractSection[];
+	stepsHeading: string;
+	stepCount: number;
+	hasReadyLine: boolean;
+	/** Share of contract items present and non-empty, 0-100. */
+	score: number;
+}
+
+const READY_LINE_PATTERN = /ready to execute when approved/i;
+const PLACEHOLDER_PATTERN = /^[\s\-*•>:.()]*(?:tbd|todo|<[^>]*>)?[\s\-*•>:.()]*$/i;
+
+function headingVariants(heading: string): string[] {
+	const parts = heading
+		.split(/\s*(?:\/|&|\band\b)\s*/i)
+		.map((part) => part.trim())
+		.filter((part) => part.length > 0);
+	return [...new Set([heading, ...parts])];
+}
+
+function headingPattern(heading: string): RegExp {
+	const names = headingVariants(heading).map(escapeRegExp).join("|");
+	return new RegExp(
+		`^\\s*(?:#{1,6}\\s*|\\d+[.)]\\s*)?\\**\\s*(?:${names})(?:\\s+notes?)?\\s*(?:\\([^)]*\\))?\\s*\\**\\s*(?::\\s*\\**(.*))?$`,
+		"i",
+	);
+}
+
+export function lintPlanContract(
+	message: string,
+	template: PlanTemplate,
+	stepCount: number,
+): ContractReport {
+	const lines = message.split("\n");
+	const found = template.sections.map((heading) => {
+		const pattern = headingPattern(heading);
+		const index = lines.findIndex((line) => pattern.test(line));
+		return {
+			heading,
+			index,
+			inline: index === -1 ? "" : (lines[index].match(pattern)?.[1] ?? ""),
+		};
+	});
+	const boundaries = [
+		...found.map((section) => section.index),
+		lines.findIndex((line) => READY_LINE_PATTERN.test(line)),
+	].filter((index) => index !== -1);
+
+	const sections = found.map(({ heading, index, inline }): ContractSection => {
+		if (index === -1) {
+			return { heading, status: "missing" };
+		}
+		if (heading.toLowerCase() === template.stepsHeading.toLowerCase()) {
+			return { heading, status: stepCount > 0 ? "ok" : "empty" };
+		}
+		const end = Math.min(...boundaries.filter((boundary) => boundary > index), lines.length);
+		const body = [inline, ...lines.slice(index + 1, end)];
+		const hasContent = body.some((line) => !PLACEHOLDER_PATTERN.test(line.trim()));
+		return { heading, status: hasContent ? "ok" : "empty" };
+	});
+
+	const hasReadyLine = READY_LINE_PATTERN.test(message);
+	const satisfied =
+		sections.filter((section) => section.status === "ok").length + (hasReadyLine ? 1 : 0);
+	return {
+		sections,
+		stepsHeading: template.stepsHeading,
+		stepCount,
+		hasReadyLine,
+		score: Math.round((satisfied / (sections.length + 1)) * 100),
+	};
+}
+
+export function getContractIssues(report: ContractReport): string[] {
+	const sections = report.sections.filter(
+		(section) => section.heading.toLowerCase() !== report.stepsHeading.toLowerCase(),
+	);
+	const missing = sections.filter((section) => section.status === "missing");
+	const empty = sections.filter((section) => section.status === "empty");
+	return [
+		missing.length > 0
+			? `Missing: ${missing.map((section) => section.heading).join(", ")}`
+			: undefined,
+		empty.length > 0 ? `Empty: ${empty.map((section) => section.heading).join(", ")}` : undefined,
+		report.stepCount === 0 ? "No extractable plan steps" : undefined,
+		report.hasReadyLine ? undefined : 'No "Ready to execute when approved." line',
+	].filter((issue): issue is string => issue !== undefined);
+}
+
+export function formatContractSummary(report: ContractReport): string | undefined {
+	const issues = getContractIssues(report);
+	if (issues.length === 0) {
+		return undefined;
+	}
+	return `Output contract ${report.score}%: ${issues.join("; ")}`;
+}
+
+export function buildContractRepromptMessage(report: ContractReport): string {
+	return `Your plan does not follow the output contract (${getContractIssues(report).join("; ")}). Re-send the complete plan with every section filled in, including a numbered ${report.stepsHeading}: section, and end with "Ready to execute when approved."`;
+}
@@ -0,0 +1,83 @@
+import { flattenSteps, type TodoItem } from "./utils";
+
+export type PlanRevisionTrigger = "initial" | "continue" | "regenerate" | "edit" | "import";
+
+export interface PlanRevision {
+	revision: number;
+	trigger: PlanRevisionTrigger;
+	note?: string;
+	createdAt: number;
+	steps: TodoItem[];
+	risks?: string[];
+}
+
+export interface PlanStepChange {
+	kind: "added" | "removed" | "changed";
+	step: string;
+	text: string;
+	previousText?: string;
+}
+
+function normalizeStepText(text: string): string {
+	return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export function diffPlanSteps(previousSteps: TodoItem[], nextSteps: TodoItem[]): PlanStepChange[] {
+	const previous = flattenSteps(previousSteps);
+	const next = flattenSteps(nextSteps);
+	const previousTexts = new Set(previous.map((item) => normalizeStepText(item.text)));
+	const nextTexts = new Set(next.map((item) => normalizeStepText(item.text)));
+	const removed = previous.filter((item) => !nextTexts.has(normalizeStepText(item.text)));
+	const added = next.filter((item) => !previousTexts.has(normalizeStepText(item.text)));
+
+	const changes: PlanStepChange[] = [];
+	for (const item of added) {
+		const replaced = removed.findIndex((candidate) => candidate.id === item.id);
+		if (replaced === -1) {
+			changes.push({ kind: "added", step: item.id, text: item.text });
+			continue;
+		}
+		changes.push({
+			kind: "changed",
+			step: item.id,
+			text: item.text,
+			previousText: removed[replaced].text,
+		});
+		removed.splice(replaced, 1);
+	}
+	for (const item of removed) {
+		changes.push({ kind: "removed", step: item.id, text: item.text });
+	}
+
+	return changes.sort((a, b) => a.step.localeCompare(b.step, undefined, { numeric: true }));
+}
+
+export function describeRevision(revision: PlanRevision): string {
+	const note = revision.note ? ` ("${revision.note}")` : "";
+	const time = new Date(revision.createdAt).toLocaleTimeString();
+	return `r${revision.revision} ${revision.trigger}${note} · ${revision.steps.length} steps · ${time}`;
+}
+
+export function formatRevisionList(revisions: PlanRevision[], activeRevision?: number): string {
+	const lines = revisions.map((revision) => {
+		const marker = revision.revision === activeRevision ? "*" : " ";
+		return `${marker} ${describeRevision(revision)}`;
+	});
+	return `Plan revisions (* = active):\n${lines.join("\n")}`;
+}
+
+export function formatPlanDiff(from: PlanRevision, to: PlanRevision): string {
+	const changes = diffPlanSteps(from.steps, to.steps);
+	const header = `Plan diff r${from.revision} → r${to.revision}`;
+	if (changes.length === 0) {
+		return `${header}\n(no step changes)`;
+	}
+
+	const lines = changes.map((change) => {
+		if (change.kind === "changed") {
+			return `~ ${change.step}. ${change.previousText} → ${change.text}`;
+		}
+		return `${change.kind === "added" ? "+" : "-"} ${change.step}. ${change.text}`;
+	});
+	return `${header}\n${lines.join("\n")}`;
+}
@@ -1,12 +1,151 @@
+import { existsSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { StringEnum } from "@mariozechner/pi-ai";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
-import { selectPlanNextActionWithInlineNote } from "./plan-action-ui";
+import { Type } from "@sinclair/typebox";
 import {
-	extractTodoItems,
-	isSafeReadOnlyCommand,
+	getPlanProgress,
+	PLAN_API_REQUEST_EVENT,
+	PLAN_API_VERSION,
+	PLAN_EVENTS,
+	type PlanApi,
+	type PlanApiRequest,
+	type PlanEventName,
+	type PlanEventPayloads,
+	type PlanModeRequest,
+	type PlanState,
+	toPlanStepState,
+} from "./api";
+import {
+	appendBlockedActionLog,
+	BLOCKED_ACTION_ENTRY_TYPE,
+	type BlockedAction,
+	collectBlockedActions,
+	formatBlockedActions,
+	summarizeBlockedActions,
+} from "./audit";
+import {
+	createCheckpoint,
+	deleteCheckpoints,
+	diffCheckpoint,
+	findRollbackCheckpoint,
+	isRollbackArgs,
+	formatCheckpoints,
+	isGitRepository,
+	type PlanCheckpoint,
+	restoreCheckpoint,
+} from "./checkpoints";
+import {
+	buildContractRepromptMessage,
+	type ContractReport,
+	formatContractSummary,
+	lintPlanContract,
+} from "./contract";
+import {
+	formatPlanDiff,
+	formatRevisionList,
+	type PlanRevision,
+	type PlanRevisionTrigger,
+} from "./history";
+import {
+	type PlanNextActionResult,
+	selectClarifyingAnswers,
+	selectPlanNextActionWithInlineNote,
+	selectStepReviewAction,
+} from "./plan-action-ui";
+import {
+	addProjectBashAllowPattern,
+	createBashAllowPattern,
+	createEmptyPolicy,
+	formatPlanPolicy,
+	getPlanSuggestionRules,
+	loadPlanPolicy,
+	type PlanPolicy,
+	toBashPolicy,
+} from "./policy";
+import {
+	buildClarificationMessage,
+	type ClarifyingQuestion,
+	extractClarifyingQuestions,
+} from "./questions";
+import {
+	buildStallNudgeMessage,
+	buildStallReplanMessage,
+	getStallReasons,
+	type StallAction,
+} from "./stall";
+import { getPlanSuggestionReasons } from "./suggest";
+import {
+	createSavedPlan,
+	findSavedPlan,
+	formatPlanList,
+	getPlanLibraryDirectory,
+	isPlanLibraryCommand,
+	isValidPlanName,
+	listSavedPlans,
+	type PlanFileFormat,
+	readPlanFile,
+	type SavedPlan,
+	writePlanFile,
+} from "./library";
+import {
+	formatExecutionSummary,
+	getExecutionSummaryPath,
+	writeExecutionSummary,
+} from "./report";
+import {
+	DEFAULT_FILE_SCOPE_MODE,
+	getToolTargetPaths,
+	isPathInScope,
+	normalizeScopePath,
+} from "./scope";
+import {
+	DEFAULT_TEMPLATE_NAME,
+	formatTemplateList,
+	getBuiltInTemplates,
+	loadPlanTemplates,
+	type PlanTemplate,
+} from "./templates";
+import {
+	analyzeBashCommand,
+	type BashPolicy,
+	type BashVerdict,
+	explainBashCommand,
+	formatBashExplanation,
+} from "./shell-analyzer";
+import {
+	collectPlanRevisions,
+	findLatestPlanState,
+	PLAN_REVISION_ENTRY_TYPE,
+	PLAN_STATE_ENTRY_TYPE,
+	type PlanStateSnapshot,
+} from "./state";
+import {
+	applyStepProgress,
+	cloneTodoItems,
+	countCompleted,
+	createTodoItem,
+	extractPlan,
+	findStep,
+	flattenSteps,
+	formatStepContract,
+	formatTodoTree,
+	locateStep,
 	markCompletedSteps,
 	normalizeArg,
+	renumberSteps,
+	setStepCompletion,
+	syncParentCompletion,
 	type TodoItem,
+	updateStepText,
 } from "./utils";
+import {
+	buildVerificationPrompt,
+	collectValidationSteps,
+	DEFAULT_VERIFICATION_MODE,
+	extractVerificationResults,
+	formatVerificationReport,
+} from "./verification";
 
 const STATUS_KEY = "pi-plan";
 const TODO_WIDGET_KEY = "pi-plan-todos";
@@ -26,7 +165,17 @@ const PLAN_TOOL_CANDIDATES = [
 
 const WRITE_LIKE_TOOLS = new Set(["edit", "write", "ast_rewrite"]);
 
-const PLAN_MODE_SYSTEM_PROMPT = `
+const PLAN_PROGRESS_TOOL = "plan_progress";
+
+const PlanProgressParams = Type.Object({
+	step: Type.String({ description: "Plan step id, e.g. 2 or 2.1" }),
+	status: StringEnum(["done", "blocked", "skipped"] as const),
+	note: Type.Optional(
+		Type.String({ description: "Short note on the outcome or blocker" }),
+	),
+});
+
+const PLAN_MODE_RULES = `
 [PLAN MODE ACTIVE - READ ONLY]
 You are in planning mode.
 
@@ -43,22 +192,16 @@ MANDATORY workflow:
 2) Requirement clarification
    - List uncertainties/assumptions explicitly.
    - If there is a blocking ambiguity, ask concise clarifying question(s) before finalizing.
+   - Write each question as its own list item ending in "?" under Uncertainties / assumptions,
+     with suggested answers as sub-bullets or "Options: A / B / C".
 3) Plan design
    - Build a concrete execution plan grounded in gathered evidence.
-
-Output contract (use this structure):
-1) Goal understanding (brief)
-2) Evidence gathered
-   - files/paths/symbols/docs checked
-3) Uncertainties / assumptions
-4) Plan:
-   1. step objective
-   2. target files/components
-   3. validation method
-5) Risks and rollback notes
-6) End with: "Ready to execute when approved."
 `.trim();
 
+function buildPlanModePrompt(template: PlanTemplate): string {
+	return `${PLAN_MODE_RULES}\n\nOutput contract (use this structure):\n${template.contract}`;
+}
+
 const YOLO_MODE_SYSTEM_PROMPT = `
 [DEFAULT MODE: YOLO]
 - Execute tasks directly unless the user explicitly asks for planning.
@@ -69,6 +212,9 @@ const YOLO_MODE_SYSTEM_PROMPT = `
 const EXECUTION_TRIGGER_PROMPT =
 	"Plan approved. Switch to implementation mode and execute the latest plan now.";
 
+const VERIFICATION_TRIGGER_PROMPT =
+	"Verify the completed plan: run each step's declared validation and report the results.";
+
 function notify(
 	pi: ExtensionAPI,
 	ctx: ExtensionContext,
@@ -87,13 +233,13 @@ function notify(
 	});
 }
 
-function getAssistantTextFromMessage(message: unknown): string {
+function getMessageText(message: unknown, role = "assistant"): string {
 	const candidate = message as {
 		role?: unknown;
 		content?: unknown;
 	};
 
-	if (candidate.role !== "assistant") {
+	if (candidate.role !== role) {
 		return "";
 	}
 
@@ -120,22 +266,130 @@ function getAssistantTextFromMessage(message: unknown): string {
 export default function planExtension(pi: ExtensionAPI): void {
 	let planModeEnabled = false;
 	let executionMode = false;
+	let stepwiseExecution = false;
+	let stepsAwaitingReview: string[] = [];
+	let verificationMode = false;
+	let verificationReport: string[] = [];
 	let restoreTools: string[] | null = null;
 	let todoItems: TodoItem[] = [];
+	let planRisks: string[] = [];
+	let revisions: PlanRevision[] = [];
+	let activeRevision: number | null = null;
+	let pendingRevision: { trigger: PlanRevisionTrigger; note?: string } | undefined;
+	let policy: PlanPolicy = createEmptyPolicy();
+	let bashPolicy: BashPolicy = toBashPolicy(policy);
+	let lastPersistedState: string | undefined;
+	let blockedActions: BlockedAction[] = [];
+	let planTemplates: PlanTemplate[] = getBuiltInTemplates();
+	let planTemplate: string | null = null;
+	let lastDecisionAt = 0;
+	let contractReport: ContractReport | undefined;
+	let contractReprompted = false;
+	let clarifyingQuestions: ClarifyingQuestion[] = [];
+	let checkpoints: PlanCheckpoint[] = [];
+	let stallWarnedSteps = new Set<string>();
+	let turnStepId: string | undefined;
+	let stallReplanMessage: string | undefined;
+	let planSuggestionsMuted = false;
 
 	const getAllToolNames = (): string[] => pi.getAllTools().map((tool) => tool.name);
 
+	const reloadPolicy = (ctx: ExtensionContext): void => {
+		const loaded = loadPlanPolicy(ctx.cwd);
+		policy = loaded.policy;
+		bashPolicy = toBashPolicy(policy);
+		if (loaded.errors.length > 0) {
+			notify(
+				pi,
+				ctx,
+				`Ignoring invalid pi-plan policy file(s):\n- ${loaded.errors.join("\n- ")}`,
+				"error",
+			);
+		}
+	};
+
+	const reloadTemplates = (ctx: ExtensionContext): void => {
+		const loaded = loadPlanTemplates(ctx.cwd);
+		planTemplates = loaded.templates;
+		if (loaded.errors.length > 0) {
+			notify(
+				pi,
+				ctx,
+				`Ignoring invalid plan template(s):\n- ${loaded.errors.join("\n- ")}`,
+				"error",
+			);
+		}
+	};
+
+	const getActiveTemplate = (): PlanTemplate =>
+		planTemplates.find((template) => template.name === planTemplate) ??
+		planTemplates.find((template) => template.name === DEFAULT_TEMPLATE_NAME) ??
+		planTemplates[0];
+
+	const getPlanSectionOptions = (template = getActiveTemplate()) => ({
+		stepsHeading: template.stepsHeading,
+		sectionHeadings: template.sections,
+	});
+
+	/** Section options for a plan file: its own template when known here, else the active one. */
+	const getPlanFileSectionOptions = (name: string | null) =>
+		getPlanSectionOptions(
+			planTemplates.find((template) => template.name === name) ?? getActiveTemplate(),
+		);
+
+	const isWriteLikeTool = (toolName: string): boolean =>
+		WRITE_LIKE_TOOLS.has(toolName) || policy.writeLikeTools.includes(toolName);
+
+	const getReadOnlyToolCandidates = (): string[] =>
+		[...new Set([...PLAN_TOOL_CANDIDATES, ...policy.readOnlyTools])].filter(
+			(tool) => !isWriteLikeTool(tool),
+		);
+
+	const getWriteLikeTools = (): string[] => [
+		...new Set([...WRITE_LIKE_TOOLS, ...policy.writeLikeTools]),
+	];
+
 	const getPlanTools = (): string[] => {
 		const available = new Set(getAllToolNames());
-		const planTools = PLAN_TOOL_CANDIDATES.filter((tool) => available.has(tool));
+		const planTools = getReadOnlyToolCandidates().filter((tool) => available.has(tool));
 		if (planTools.length > 0) {
-			return [...planTools];
+			return planTools;
 		}
 
-		const fallback = pi.getActiveTools().filter((tool) => !WRITE_LIKE_TOOLS.has(tool));
+		const fallback = pi.getActiveTools().filter((tool) => !isWriteLikeTool(tool));
 		return [...new Set(fallback)];
 	};
 
+	const explainToolDecision = (toolName: string): string => {
+		const registered = getAllToolNames().includes(toolName);
+		const tool = `Tool: ${toolName}${registered ? "" : " (not registered in this session)"}`;
+		if (isWriteLikeTool(toolName)) {
+			return [
+				"Plan-mode guard: blocked",
+				tool,
+				"Reason: write-like tool in plan mode",
+				`Rule: ${WRITE_LIKE_TOOLS.has(toolName) ? "built-in write-like tools" : "tools.writeLike from the plan policy"}`,
+				`During approved execution, its target paths are checked against the plan's Files: scope (execution.fileScope: ${policy.fileScope ?? DEFAULT_FILE_SCOPE_MODE}).`,
+			].join("\n");
+		}
+		if (getReadOnlyToolCandidates().includes(toolName)) {
+			return [
+				"Plan-mode guard: allowed",
+				tool,
+				`Rule: ${(PLAN_TOOL_CANDIDATES as readonly string[]).includes(toolName) ? "built-in read-only tools" : "tools.readOnly from the plan policy"}`,
+				...(toolName === "bash"
+					? ["Each bash command is still checked on its own; use /plan check <command>."]
+					: []),
+			].join("\n");
+		}
+		return [
+			"Plan-mode guard: not available",
+			tool,
+			"Reason: not in the plan-mode tool set, so it is deactivated while planning",
+			"Rule: plan-mode tool set (add it to tools.readOnly in the plan policy to allow it)",
+		].join("\n");
+	};
+
 	const restoreNormalTools = (): void => {
 		const toolsToRestore =
 			restoreTools && restoreTools.length > 0
@@ -152,52 +406,218 @@ export default function planExtension(pi: ExtensionAPI): void {
 			return;
 		}
 
+		if (!executionMode && verificationReport.length > 0) {
+			ctx.ui.setWidget(TODO_WIDGET_KEY, [
+				ctx.ui.theme.fg("accent", "Plan verification"),
+				...verificationReport,
+			]);
+			return;
+		}
+
 		if (!executionMode || todoItems.length === 0) {
 			ctx.ui.setWidget(TODO_WIDGET_KEY, undefined);
 			return;
 		}
 
-		const lines = todoItems.map((item) => {
-			if (item.completed) {
-				return (
-					ctx.ui.theme.fg("success", "☑ ") +
-					ctx.ui.theme.fg("muted", ctx.ui.theme.strikethrough(item.text))
-				);
-			}
-			return `${ctx.ui.theme.fg("muted", "☐ ")}${item.text}`;
-		});
+		const renderItems = (items: TodoItem[], indent: string): string[] =>
+			items.flatMap((item) => {
+				const progress =
+					item.children.length > 0
+						? ctx.ui.theme.fg(
+								"dim",
+								` (${countCompleted(item.children)}/${item.children.length})`,
+							)
+						: "";
+				if (item.completed) {
+					return [
+						indent +
+							(item.skipped
+								? ctx.ui.theme.fg("muted", "↷ ")
+								: ctx.ui.theme.fg("success", "☑ ")) +
+							ctx.ui.theme.fg("muted", ctx.ui.theme.strikethrough(item.text)) +
+							progress,
+					];
+				}
+				if (item.blocked) {
+					const note = item.note ? ctx.ui.theme.fg("dim", ` — ${item.note}`) : "";
+					return [
+						`${indent}${ctx.ui.theme.fg("warning", "⊘ ")}${item.text}${progress}${note}`,
+						...renderItems(item.children, `${indent}  `),
+					];
+				}
+				const files =
+					item.files.length > 0
+						? ctx.ui.theme.fg(
+								"dim",
+								` · ${item.files[0]}${item.files.length > 1 ? ` +${item.files.length - 1}` : ""}`,
+							)
+						: "";
+				return [
+					`${indent}${ctx.ui.theme.fg("muted", "☐ ")}${item.text}${progress}${files}`,
+					...renderItems(item.children, `${indent}  `),
+				];
+			});
+		const lines = renderItems(todoItems, "");
 
 		ctx.ui.setWidget(TODO_WIDGET_KEY, lines);
 	};
 
+	const getStateSnapshot = (): PlanStateSnapshot => ({
+		planModeEnabled,
+		executionMode,
+		stepwiseExecution,
+		verificationMode,
+		planTemplate,
+		restoreTools: restoreTools ? [...restoreTools] : null,
+		todoItems: cloneTodoItems(todoItems),
+		planRisks: [...planRisks],
+		revisionCount: revisions.length,
+		activeRevision,
+		checkpoints,
+	});
+
+	const getPlanState = (): PlanState => ({
+		phase: planModeEnabled
+			? "planning"
+			: verificationMode
+				? "verifying"
+				: executionMode
+					? "executing"
+					: "off",
+		stepwise: stepwiseExecution,
+		template: planTemplate,
+		revision: activeRevision,
+		steps: todoItems.map(toPlanStepState),
+		progress: getPlanProgress(todoItems),
+	});
+
+	const emitPlanEvent = <Name extends PlanEventName>(
+		name: Name,
+		payload: Omit<PlanEventPayloads[Name], "state">,
+	): void => {
+		pi.events.emit(name, { ...payload, state: getPlanState() });
+	};
+
+	const persistState = (): void => {
+		const snapshot = getStateSnapshot();
+		const serialized = JSON.stringify(snapshot);
+		if (serialized === lastPersistedState) {
+			return;
+		}
+		lastPersistedState = serialized;
+		pi.appendEntry(PLAN_STATE_ENTRY_TYPE, snapshot);
+	};
+
+	const syncProgressTool = (): void => {
+		const activeTools = pi.getActiveTools();
+		const isActive = activeTools.includes(PLAN_PROGRESS_TOOL);
+		if (executionMode && !isActive) {
+			pi.setActiveTools([...activeTools, PLAN_PROGRESS_TOOL]);
+		} else if (!executionMode && isActive) {
+			pi.setActiveTools(activeTools.filter((tool) => tool !== PLAN_PROGRESS_TOOL));
+		}
+	};
+
 	const setStatus = (ctx: ExtensionContext): void => {
+		persistState();
+		syncProgressTool();
 		if (!ctx.hasUI) {
 			return;
 		}
 
 		if (executionMode && todoItems.length > 0) {
 			const completed = todoItems.filter((item) => item.completed).length;
+			const stepwise = stepwiseExecution ? " · stepwise" : "";
 			ctx.ui.setStatus(
 				STATUS_KEY,
-				ctx.ui.theme.fg("accent", `📋 ${completed}/${todoItems.length}`),
+				ctx.ui.theme.fg("accent", `📋 ${completed}/${todoItems.length}${stepwise}`),
 			);
 			updateTodoWidget(ctx);
 			return;
 		}
 
+		if (verificationMode) {
+			ctx.ui.setStatus(STATUS_KEY, ctx.ui.theme.fg("accent", "🔎 verifying plan"));
+			updateTodoWidget(ctx);
+			return;
+		}
+
 		ctx.ui.setStatus(
 			STATUS_KEY,
-			planModeEnabled ? ctx.ui.theme.fg("warning", "⏸ plan") : undefined,
+			planModeEnabled
+				? ctx.ui.theme.fg("warning", `⏸ plan${planTemplate ? ` · ${planTemplate}` : ""}`)
+				: undefined,
 		);
 		updateTodoWidget(ctx);
 	};
 
-	const enterPlanMode = (ctx: ExtensionContext): void => {
+	const discardCheckpoints = (ctx: ExtensionContext, stale = checkpoints): void => {
+		checkpoints = checkpoints.filter((checkpoint) => !stale.includes(checkpoint));
+		if (stale.length > 0) {
+			void deleteCheckpoints(ctx.cwd, stale);
+		}
+	};
+
+	const resetProgress = (ctx: ExtensionContext): void => {
+		planTemplate = null;
+		executionMode = false;
+		stepwiseExecution = false;
+		verificationMode = false;
+		verificationReport = [];
+		stepsAwaitingReview = [];
+		todoItems = [];
+		planRisks = [];
+		revisions = [];
+		activeRevision = null;
+		pendingRevision = undefined;
+		contractReport = undefined;
+		contractReprompted = false;
+		clarifyingQuestions = [];
+		discardCheckpoints(ctx);
+		stallWarnedSteps = new Set();
+		stallReplanMessage = undefined;
+	};
+
+	const recordRevision = (steps: TodoItem[], risks: string[]): void => {
+		const trigger =
+			pendingRevision?.trigger ?? (revisions.length === 0 ? "initial" : "continue");
+		const revision: PlanRevision = {
+			revision: revisions.length + 1,
+			trigger,
+			note: pendingRevision?.note,
+			createdAt: Date.now(),
+			steps: cloneTodoItems(steps),
+			risks: [...risks],
+		};
+		pendingRevision = undefined;
+		revisions = [...revisions, revision];
+		activeRevision = revision.revision;
+		pi.appendEntry(PLAN_REVISION_ENTRY_TYPE, revision);
+		emitPlanEvent(PLAN_EVENTS.proposed, { revision: revision.revision });
+	};
+
+	const findRevision = (revision: number): PlanRevision | undefined =>
+		revisions.find((candidate) => candidate.revision === revision);
+
+	const getNextOpenStep = (): TodoItem | undefined =>
+		flattenSteps(todoItems).find((item) => !item.completed && item.children.length === 0);
+
+	/** The step execution activity is attributed to: the first open step that is not blocked. */
+	const getActiveStep = (): TodoItem | undefined =>
+		flattenSteps(todoItems).find(
+			(item) => !item.completed && !item.blocked && item.children.length === 0,
+		);
+
+	const enterPlanMode = (
+		ctx: ExtensionContext,
+		options: { resetProgress?: boolean } = {},
+	): void => {
 		if (planModeEnabled) {
 			notify(pi, ctx, "Plan mode is already enabled.");
 			return;
 		}
 
+		reloadPolicy(ctx);
 		const currentTools = pi.getActiveTools();
 		restoreTools = currentTools.length > 0 ? [...currentTools] : null;
 
@@ -207,8 +627,9 @@ export default function planExtension(pi: ExtensionAPI): void {
 			return;
 		}
 
-		todoItems = [];
-		executionMode = false;
+		if (options.resetProgress !== false) {
+			resetProgress(ctx);
+		}
 		pi.setActiveTools(planTools);
 		planModeEnabled = true;
 		setStatus(ctx);
@@ -225,8 +646,7 @@ export default function planExtension(pi: ExtensionAPI): void {
 				notify(pi, ctx, reason);
 			}
 			if (options.resetProgress) {
-				executionMode = false;
-				todoItems = [];
+				resetProgress(ctx);
 				setStatus(ctx);
 			}
 			return;
@@ -235,201 +655,360 @@ export default function planExtension(pi: ExtensionAPI): void {
 		planModeEnabled = false;
 		restoreNormalTools();
 		if (options.resetProgress) {
-			executionMode = false;
-			todoItems = [];
+			resetProgress(ctx);
 		}
 		setStatus(ctx);
+		emitPlanEvent(PLAN_EVENTS.exited, {});
 		if (reason) {
 			notify(pi, ctx, reason);
 		}
 	};
 
-	pi.registerCommand("plan", {
-		description:
-			"Enable read-only planning mode. Usage: /plan, /plan on, /plan off, /plan status, /plan <task>",
-		handler: async (args, ctx) => {
-			const raw = args.trim();
-
-			if (raw.length === 0) {
-				if (planModeEnabled) {
-					exitPlanMode(ctx, "Plan mode disabled. Back to YOLO mode.", {
-						resetProgress: true,
-					});
-				} else {
-					enterPlanMode(ctx);
-				}
-				return;
-			}
-
-			const command = normalizeArg(raw);
-			if (["on", "enable", "start"].includes(command)) {
-				enterPlanMode(ctx);
-				return;
-			}
-
-			if (["off", "disable", "stop", "exit"].includes(command)) {
-				exitPlanMode(ctx, "Plan mode disabled. Back to YOLO mode.", {
-					resetProgress: true,
-				});
-				return;
-			}
+	const recordCheckpoint = async (
+		ctx: ExtensionContext,
+		label: string,
+	): Promise<void> => {
+		if (!policy.checkpoints || !(await isGitRepository(ctx.cwd))) {
+			return;
+		}
+		try {
+			const checkpoint = await createCheckpoint(
+				ctx.cwd,
+				(checkpoints.at(-1)?.id ?? 0) + 1,
+				label,
+				getNextOpenStep()?.id ?? null,
+			);
+			checkpoints = [...checkpoints, checkpoint];
+			setStatus(ctx);
+		} catch (error) {
+			notify(
+				pi,
+				ctx,
+				`Could not create plan checkpoint: ${(error as Error).message}`,
+				"warning",
+			);
+		}
+	};
 
-			if (["status", "state"].includes(command)) {
-				notify(
-					pi,
-					ctx,
-					planModeEnabled
-						? "Plan mode: ON (read-only planning)"
-						: executionMode
-							? "Plan mode: OFF (executing approved plan)"
-							: "Plan mode: OFF (default YOLO mode)",
-				);
-				return;
-			}
+	const approvePlan = async (
+		ctx: ExtensionContext,
+		options: { stepwise?: boolean } = {},
+	): Promise<void> => {
+		executionMode = todoItems.length > 0;
+		discardCheckpoints(ctx);
+		stallWarnedSteps = new Set();
+		stepwiseExecution = executionMode && options.stepwise === true;
+		stepsAwaitingReview = [];
+		verificationMode = false;
+		verificationReport = [];
+		exitPlanMode(
+			ctx,
+			stepwiseExecution
+				? "Plan approved. Entering YOLO mode for step-by-step execution."
+				: "Plan approved. Entering YOLO mode for execution.",
+		);
+		if (executionMode) {
+			emitPlanEvent(PLAN_EVENTS.approved, { stepwise: stepwiseExecution });
+			await recordCheckpoint(ctx, "plan approved");
+		}
 
-			if (!planModeEnabled) {
-				enterPlanMode(ctx);
-			}
+		const firstOpenStep = getNextOpenStep();
+		if (firstOpenStep) {
+			pi.sendUserMessage(
+				`${EXECUTION_TRIGGER_PROMPT} Start with step ${firstOpenStep.id}: ${firstOpenStep.text}`,
+			);
+		} else {
+			pi.sendUserMessage(EXECUTION_TRIGGER_PROMPT);
+		}
+	};
 
-			pi.sendUserMessage(raw);
-		},
-	});
+	const startVerification = (ctx: ExtensionContext): boolean => {
+		if (collectValidationSteps(todoItems).length === 0) {
+			return false;
+		}
+		verificationMode = true;
+		verificationReport = [];
+		setStatus(ctx);
+		if (ctx.isIdle()) {
+			pi.sendUserMessage(VERIFICATION_TRIGGER_PROMPT);
+		} else {
+			pi.sendUserMessage(VERIFICATION_TRIGGER_PROMPT, { deliverAs: "followUp" });
+		}
+		return true;
+	};
 
-	pi.registerCommand("todos", {
-		description: "Show current plan execution progress",
-		handler: async (_args, ctx) => {
-			if (todoItems.length === 0) {
-				notify(
-					pi,
-					ctx,
-					"No tracked plan steps. Create a plan in /plan mode first.",
-					"info",
-				);
-				return;
+	const finishVerification = (text: string, ctx: ExtensionContext): void => {
+		const steps = collectValidationSteps(todoItems);
+		const results = extractVerificationResults(text);
+		const failed = results.filter((result) => !result.passed);
+		for (const result of failed) {
+			const item = findStep(todoItems, result.id);
+			if (item) {
+				setStepCompletion(item, false);
+				item.note = `Validation failed${result.detail ? `: ${result.detail}` : ""}`;
 			}
+		}
+		// A step without a [VERIFY:n] line was not shown to pass, so it is reopened like a failure.
+		const unreported = steps.filter(
+			(item) => !results.some((result) => result.id === item.id),
+		);
+		for (const item of unreported) {
+			setStepCompletion(item, false);
+			item.note = "Validation not reported";
+		}
+		syncParentCompletion(todoItems);
 
-			const completed = todoItems.filter((item) => item.completed).length;
-			const progress = `${completed}/${todoItems.length}`;
-			const list = todoItems
-				.map((item) => `${item.step}. ${item.completed ? "✓" : "○"} ${item.text}`)
-				.join("\n");
-			notify(pi, ctx, `Plan progress ${progress}\n${list}`, "info");
-		},
-	});
+		verificationMode = false;
+		executionMode = failed.length > 0 || unreported.length > 0;
+		verificationReport = formatVerificationReport(steps, results);
+		setStatus(ctx);
 
-	pi.on("tool_call", async (event) => {
-		if (!planModeEnabled) {
+		const passed = results.filter((result) => result.passed).length;
+		const summary = `Plan verification: ${passed}/${steps.length} passed\n${verificationReport.join("\n")}`;
+		if (executionMode) {
+			notify(
+				pi,
+				ctx,
+				`${summary}\n${unreported.length > 0 ? "Failed and unreported steps" : "Failed steps"} were reopened. Send a message to fix or verify them.`,
+				"warning",
+			);
 			return;
 		}
+		notify(pi, ctx, summary, "info");
+	};
 
-		if (WRITE_LIKE_TOOLS.has(event.toolName)) {
-			return {
-				block: true,
-				reason:
-					"Plan mode is read-only. Approve execution first (choose 'Approve and execute now').",
-			};
-		}
-
-		if (event.toolName === "bash") {
-			const input = event.input as { command?: unknown };
-			const command = typeof input.command === "string" ? input.command : "";
-			if (!isSafeReadOnlyCommand(command)) {
-				return {
-					block: true,
-					reason: `Plan mode blocked a potentially mutating bash command: ${command}`,
-				};
-			}
-		}
-	});
+	const getExecutionSummary = (): string =>
+		formatExecutionSummary(todoItems, {
+			revision: activeRevision,
+			risks: planRisks,
+			verification: verificationReport,
+		});
 
-	pi.on("before_agent_start", async (event) => {
-		if (planModeEnabled) {
-			return {
-				systemPrompt: `${event.systemPrompt}\n\n${PLAN_MODE_SYSTEM_PROMPT}`,
-			};
+	/** Posts the execution summary; only `/plan summary` also writes it to `.pi/pi-plan-summary.md`. */
+	const sendExecutionSummary = (
+		ctx: ExtensionContext,
+		options: { writeFile?: boolean } = {},
+	): string => {
+		const summary = getExecutionSummary();
+		if (options.writeFile) {
+			const error = writeExecutionSummary(ctx.cwd, summary);
+			notify(
+				pi,
+				ctx,
+				error
+					? `Could not write execution summary: ${error}`
+					: `Wrote the execution summary to ${getExecutionSummaryPath(ctx.cwd)}.`,
+				error ? "warning" : "info",
+			);
 		}
+		pi.sendMessage({
+			customType: "plan-execution-summary",
+			content: summary,
+			display: true,
+		});
+		return summary;
+	};
 
-		if (executionMode && todoItems.length > 0) {
-			const remaining = todoItems
-				.filter((item) => !item.completed)
-				.map((item) => `${item.step}. ${item.text}`)
-				.join("\n");
-			const executionPrompt = remaining
-				? `[APPROVED PLAN EXECUTION]\nComplete the remaining steps in order:\n${remaining}\n\nAfter each completed step, include a [DONE:n] marker.`
-				: "[APPROVED PLAN EXECUTION]\nFinish implementation and verify results.";
+	/** Leaves execution for plan mode, keeping progress; returns the completed steps for the prompt. */
+	const returnToPlanning = (ctx: ExtensionContext, note: string): string[] => {
+		const completedSteps = flattenSteps(todoItems)
+			.filter((item) => item.completed && item.children.length === 0)
+			.map((item) => `${item.id}. ${item.text}`);
+		executionMode = false;
+		stepwiseExecution = false;
+		enterPlanMode(ctx, { resetProgress: false });
+		pendingRevision = { trigger: "continue", note };
+		return completedSteps;
+	};
 
-			return {
-				systemPrompt: `${event.systemPrompt}\n\n${YOLO_MODE_SYSTEM_PROMPT}\n\n${executionPrompt}`,
-			};
+	const sendExecutionMessage = (ctx: ExtensionContext, message: string): void => {
+		if (ctx.isIdle()) {
+			pi.sendUserMessage(message);
+		} else {
+			pi.sendUserMessage(message, { deliverAs: "steer" });
 		}
+	};
 
-		return {
-			systemPrompt: `${event.systemPrompt}\n\n${YOLO_MODE_SYSTEM_PROMPT}`,
+	const selectStallAction = async (
+		ctx: ExtensionContext,
+		step: TodoItem,
+		reasons: string[],
+	): Promise<StallAction> => {
+		const options: Record<string, StallAction> = {
+			"Nudge the agent to wrap up the step": "nudge",
+			"Mark the step blocked and move on": "block",
+			"Re-plan this step in plan mode": "replan",
+			"Keep going": "continue",
 		};
-	});
+		const choice = await ctx.ui.select(
+			`Plan step ${step.id} may be stalled: ${reasons.join(", ")}\n${step.id}. ${step.text}`,
+			Object.keys(options),
+		);
+		return (choice && options[choice]) || "continue";
+	};
 
-	pi.on("turn_end", async (event, ctx) => {
-		if (!executionMode || todoItems.length === 0) {
+	const checkStalledStep = async (ctx: ExtensionContext): Promise<void> => {
+		const step = getActiveStep();
+		if (!step || stallWarnedSteps.has(step.id)) {
+			return;
+		}
+		const reasons = getStallReasons(step, policy.stallLimits);
+		if (reasons.length === 0) {
+			return;
+		}
+		stallWarnedSteps.add(step.id);
+
+		if (!ctx.hasUI || !policy.stallPrompt) {
+			notify(
+				pi,
+				ctx,
+				`Plan step ${step.id} may be stalled: ${reasons.join(", ")}. See /todos for step timings.`,
+				"warning",
+			);
 			return;
 		}
 
-		const text = getAssistantTextFromMessage(event.message);
-		if (!text) {
+		const action = await selectStallAction(ctx, step, reasons);
+		if (action === "nudge") {
+			sendExecutionMessage(ctx, buildStallNudgeMessage(step, reasons));
 			return;
 		}
 
-		const completedCount = markCompletedSteps(text, todoItems);
-		if (completedCount > 0) {
+		if (action === "block") {
+			applyStepProgress(todoItems, step, "blocked", `Stalled: ${reasons.join(", ")}`);
 			setStatus(ctx);
+			const nextStep = getActiveStep();
+			sendExecutionMessage(
+				ctx,
+				nextStep
+					? `Step ${step.id} is marked blocked. Leave it and continue with step ${nextStep.id}: ${nextStep.text}`
+					: `Step ${step.id} is marked blocked and no other open steps remain. Stop and summarize what is blocking the plan.`,
+			);
+			return;
 		}
 
-		if (todoItems.every((item) => item.completed)) {
-			executionMode = false;
-			setStatus(ctx);
-			notify(pi, ctx, "All tracked plan steps are complete.", "info");
+		if (action === "replan") {
+			const completedSteps = returnToPlanning(ctx, `Re-plan stalled step ${step.id}`);
+			stallReplanMessage = buildStallReplanMessage(step, reasons, completedSteps);
+			if (ctx.isIdle()) {
+				pi.sendUserMessage(stallReplanMessage);
+				stallReplanMessage = undefined;
+			} else {
+				ctx.abort();
+			}
 		}
-	});
+	};
 
-	pi.on("agent_end", async (event, ctx) => {
-		if (!planModeEnabled || !ctx.hasUI) {
+	const promptStepReview = async (ctx: ExtensionContext): Promise<void> => {
+		const finished = stepsAwaitingReview
+			.map((id) => findStep(todoItems, id))
+			.filter((item): item is TodoItem => item !== undefined);
+		const changes = [...new Set(finished.flatMap((item) => item.touchedFiles ?? []))];
+		stepsAwaitingReview = [];
+		const nextStep = getNextOpenStep();
+		if (finished.length === 0 || !nextStep) {
 			return;
 		}
 
-		const lastAssistantText = [...event.messages]
-			.reverse()
-			.map(getAssistantTextFromMessage)
-			.find((text) => text.length > 0);
-
-		if (lastAssistantText) {
-			const extracted = extractTodoItems(lastAssistantText);
-			if (extracted.length > 0) {
-				todoItems = extracted;
-			}
+		const finishedIds = finished.map((item) => item.id).join(", ");
+		const summary = [
+			...finished.map((item) => `${item.id}. ${item.text}`),
+			`Changed: ${changes.length > 0 ? changes.join(", ") : "(no file edits recorded)"}`,
+			`Next: ${nextStep.id}. ${nextStep.text}`,
+		];
+		if (!ctx.hasUI) {
+			notify(
+				pi,
+				ctx,
+				`Step ${finishedIds} complete. Paused before the next step.\n${summary.join("\n")}`,
+			);
+			return;
 		}
-		setStatus(ctx);
 
-		const selection = await selectPlanNextActionWithInlineNote(ctx.ui);
+		const selection = await selectStepReviewAction(
+			ctx.ui,
+			`Plan execution: step ${finishedIds} complete`,
+			summary,
+		);
 		if (selection.cancelled || !selection.action) {
+			notify(
+				pi,
+				ctx,
+				"Step-by-step execution paused. Send a message to continue.",
+				"info",
+			);
 			return;
 		}
 
-		if (selection.action === "approve") {
-			executionMode = todoItems.length > 0;
-			exitPlanMode(ctx, "Plan approved. Entering YOLO mode for execution.");
-
-			const firstOpenStep = todoItems.find((item) => !item.completed);
-			if (firstOpenStep) {
-				pi.sendUserMessage(
-					`${EXECUTION_TRIGGER_PROMPT} Start with step ${firstOpenStep.step}: ${firstOpenStep.text}`,
-				);
-			} else {
-				pi.sendUserMessage(EXECUTION_TRIGGER_PROMPT);
-			}
+		if (selection.action === "next") {
+			pi.sendUserMessage(`Continue with step ${nextStep.id}: ${nextStep.text}`);
 			return;
 		}
 
-		if (selection.action === "regenerate") {
-			todoItems = [];
+		if (selection.action === "rerun") {
+			for (const item of finished) {
+				setStepCompletion(item, false);
+			}
+			syncParentCompletion(todoItems);
+			setStatus(ctx);
+			pi.sendUserMessage(
+				`Re-run step ${finishedIds}: ${finished.map((item) => item.text).join("; ")}. Redo the step and verify the result again.`,
+			);
+			return;
+		}
+
+		if (selection.action === "revise") {
+			const note = (
+				await ctx.ui.input(
+					"Revise remaining plan",
+					"What should change in the remaining steps?",
+				)
+			)?.trim();
+			if (!note) {
+				notify(
+					pi,
+					ctx,
+					"Step-by-step execution paused. Send a message to continue.",
+					"info",
+				);
+				return;
+			}
+			const completedSteps = returnToPlanning(ctx, note);
+			pi.sendUserMessage(
+				`Revise the remaining plan. Already completed: ${completedSteps.join("; ")}. User note: ${note}. Provide an updated Plan: section covering only the remaining work.`,
+			);
+			return;
+		}
+
+		executionMode = false;
+		stepwiseExecution = false;
+		setStatus(ctx);
+		notify(
+			pi,
+			ctx,
+			"Stopped step-by-step execution. Remaining steps stay tracked in /todos.",
+		);
+		emitPlanEvent(PLAN_EVENTS.executionFinished, { summary: sendExecutionSummary(ctx) });
+	};
+
+	const applyNextAction = async (
+		ctx: ExtensionContext,
+		selection: PlanNextActionResult,
+	): Promise<void> => {
+		if (selection.action === "approve" || selection.action === "approve-stepwise") {
+			if (selection.steps) {
+				todoItems = selection.steps;
+				renumberSteps(todoItems);
+				pendingRevision = { trigger: "edit" };
+				recordRevision(todoItems, planRisks);
+			}
+			await approvePlan(ctx, { stepwise: selection.action === "approve-stepwise" });
+			return;
+		}
+
+		if (selection.action === "regenerate") {
+			todoItems = [];
+			pendingRevision = { trigger: "regenerate" };
 			setStatus(ctx);
 			pi.sendUserMessage(
 				"Regenerate the full plan from scratch. Re-check context and provide a refreshed Plan: section.",
@@ -439,6 +1018,10 @@ export default function planExtension(pi: ExtensionAPI): void {
 
 		if (selection.action === "continue") {
 			const continueNote = selection.continueNote?.trim() ?? "";
+			pendingRevision = {
+				trigger: "continue",
+				note: continueNote.length > 0 ? continueNote : undefined,
+			};
 			if (continueNote.length === 0) {
 				notify(
 					pi,
@@ -452,7 +1035,7 @@ export default function planExtension(pi: ExtensionAPI): void {
 			const firstOpenStep = todoItems.find((item) => !item.completed);
 			if (firstOpenStep) {
 				pi.sendUserMessage(
-					`Continue planning from the proposed plan. User note: ${continueNote}. Focus on step ${firstOpenStep.step}: ${firstOpenStep.text}. Refine files, validation, and risks in read-only mode.`,
+					`Continue planning from the proposed plan. User note: ${continueNote}. Focus on step ${firstOpenStep.id}: ${firstOpenStep.text}. Refine files, validation, and risks in read-only mode.`,
 				);
 			} else {
 				pi.sendUserMessage(
@@ -467,10 +1050,1373 @@ export default function planExtension(pi: ExtensionAPI): void {
 				resetProgress: true,
 			});
 		}
+	};
+
+	const recordBlockedAction = (
+		ctx: ExtensionContext,
+		tool: string,
+		input: unknown,
+		rule: string,
+		reason?: string,
+	): void => {
+		const action: BlockedAction = {
+			timestamp: Date.now(),
+			tool,
+			input,
+			rule,
+			reason,
+			revision: activeRevision,
+		};
+		blockedActions = [...blockedActions, action];
+		pi.appendEntry(BLOCKED_ACTION_ENTRY_TYPE, action);
+		if (policy.auditJsonl) {
+			const error = appendBlockedActionLog(ctx.cwd, action);
+			if (error) {
+				notify(pi, ctx, `Could not write blocked-action log: ${error}`, "warning");
+			}
+		}
+	};
+
+	const promptNextAction = async (ctx: ExtensionContext): Promise<void> => {
+		const blockedSummary = summarizeBlockedActions(
+			blockedActions.filter((action) => action.timestamp > lastDecisionAt),
+		);
+		lastDecisionAt = Date.now();
+		const contractSummary = contractReport
+			? formatContractSummary(contractReport)
+			: undefined;
+		const summaryLines = [contractSummary, blockedSummary].filter(
+			(line): line is string => line !== undefined,
+		);
+
+		while (true) {
+			const selection = await selectPlanNextActionWithInlineNote(
+				ctx.ui,
+				summaryLines,
+				todoItems,
+				clarifyingQuestions.length,
+			);
+			if (selection.cancelled || !selection.action) {
+				return;
+			}
+			if (selection.action === "answer") {
+				const result = await selectClarifyingAnswers(ctx.ui, clarifyingQuestions);
+				if (result.cancelled || !result.answers) {
+					continue;
+				}
+				pendingRevision = {
+					trigger: "continue",
+					note: `Answered ${result.answers.length} clarifying question(s)`,
+				};
+				clarifyingQuestions = [];
+				pi.sendUserMessage(buildClarificationMessage(result.answers));
+				return;
+			}
+			if (selection.steps?.length === 0) {
+				notify(
+					pi,
+					ctx,
+					"Every step was left out. Include at least one step to approve the plan.",
+					"warning",
+				);
+				continue;
+			}
+			const approving =
+				selection.action === "approve" || selection.action === "approve-stepwise";
+			if (approving && contractReport?.stepCount === 0) {
+				const confirmed = await ctx.ui.confirm(
+					"No plan steps extracted",
+					todoItems.length > 0
+						? `The last response has no extractable steps. Approve the previous plan revision r${activeRevision ?? revisions.length} (${todoItems.length} steps) instead?`
+						: "The last response has no extractable steps, so execution progress will not be tracked. Approve anyway?",
+				);
+				if (!confirmed) {
+					continue;
+				}
+			}
+			await applyNextAction(ctx, selection);
+			return;
+		}
+	};
+
+	const announcePendingDecision = (): void => {
+		const contractSummary = contractReport
+			? formatContractSummary(contractReport)
+			: undefined;
+		const lines = [
+			todoItems.length > 0
+				? `Plan r${activeRevision ?? revisions.length} (${todoItems.length} steps) awaits a decision: /plan approve [--stepwise]${contractReport?.stepCount === 0 ? " --force" : ""}, /plan continue <note>, /plan regenerate, or /plan reject.`
+				: "The agent asked clarifying questions. Answer them with /plan continue <answers>.",
+			contractSummary,
+			...clarifyingQuestions.map(
+				(question, index) =>
+					`Q${index + 1}. ${question.text}${question.options.length > 0 ? ` (${question.options.join(" / ")})` : ""}`,
+			),
+		].filter((line): line is string => line !== undefined);
+		pi.sendMessage({
+			customType: "plan-mode-status",
+			content: lines.join("\n"),
+			display: true,
+			details: {
+				awaitingDecision: true,
+				revision: activeRevision,
+				steps: todoItems.length,
+				contract: contractReport,
+				questions: clarifyingQuestions,
+			},
+		});
+	};
+
+	pi.registerCommand("plan", {
+		description:
+			"Enable read-only planning mode. Usage: /plan, /plan on, /plan off, /plan status, /plan approve [--stepwise] [--force], /plan continue <note>, /plan regenerate, /plan reject, /plan verify, /plan summary, /plan blocked, /plan config, /plan history, /plan diff [a] [b], /plan revert <n>, /plan rollback [step] [--yes], /plan check <command>, /plan check --tool <name>, /plan save <name>, /plan list, /plan load <name>, /plan export [--json|--md] [path], /plan import <file>, /plan templates, /plan --template <name> <task>, /plan <task>",
+		handler: async (args, ctx) => {
+			const raw = args.trim();
+
+			if (raw.length === 0) {
+				if (planModeEnabled) {
+					exitPlanMode(ctx, "Plan mode disabled. Back to YOLO mode.", {
+						resetProgress: true,
+					});
+				} else {
+					enterPlanMode(ctx);
+				}
+				return;
+			}
+
+			const command = normalizeArg(raw);
+			if (["on", "enable", "start"].includes(command)) {
+				enterPlanMode(ctx);
+				return;
+			}
+
+			if (["off", "disable", "stop", "exit"].includes(command)) {
+				exitPlanMode(ctx, "Plan mode disabled. Back to YOLO mode.", {
+					resetProgress: true,
+				});
+				return;
+			}
+
+			if (["status", "state"].includes(command)) {
+				notify(
+					pi,
+					ctx,
+					planModeEnabled
+						? "Plan mode: ON (read-only planning)"
+						: executionMode
+							? "Plan mode: OFF (executing approved plan)"
+							: "Plan mode: OFF (default YOLO mode)",
+				);
+				return;
+			}
+
+			const [head, ...rest] = raw.split(/\s+/);
+			const subcommand = normalizeArg(head);
+			const numericArgs = rest.every((arg) => /^r?\d+$/i.test(arg))
+				? rest.map((arg) => Number(arg.replace(/^r/i, "")))
+				: undefined;
+
+			if (["approve", "continue", "regenerate", "reject"].includes(subcommand)) {
+				if (!planModeEnabled) {
+					notify(
+						pi,
+						ctx,
+						`/plan ${subcommand} is only available in plan mode.`,
+						"warning",
+					);
+					return;
+				}
+
+				if (subcommand === "approve") {
+					const flags = new Set(rest);
+					if (
+						flags.size !== rest.length ||
+						rest.some((arg) => arg !== "--stepwise" && arg !== "--force")
+					) {
+						notify(pi, ctx, "Usage: /plan approve [--stepwise] [--force]", "warning");
+						return;
+					}
+					if (todoItems.length === 0) {
+						notify(pi, ctx, "No proposed plan to approve yet.", "warning");
+						return;
+					}
+					if (contractReport?.stepCount === 0 && !flags.has("--force")) {
+						notify(
+							pi,
+							ctx,
+							`The last response has no extractable steps. Run /plan approve --force to approve the previous plan revision r${activeRevision ?? revisions.length} (${todoItems.length} steps).`,
+							"warning",
+						);
+						return;
+					}
+					await applyNextAction(ctx, {
+						cancelled: false,
+						action: flags.has("--stepwise") ? "approve-stepwise" : "approve",
+					});
+					return;
+				}
+
+				if (subcommand === "continue") {
+					await applyNextAction(ctx, {
+						cancelled: false,
+						action: "continue",
+						continueNote: rest.join(" "),
+					});
+					return;
+				}
+
+				if (rest.length > 0) {
+					notify(pi, ctx, `Usage: /plan ${subcommand}`, "warning");
+					return;
+				}
+				await applyNextAction(ctx, {
+					cancelled: false,
+					action: subcommand === "regenerate" ? "regenerate" : "exit",
+				});
+				return;
+			}
+
+			if (subcommand === "templates" && rest.length === 0) {
+				reloadTemplates(ctx);
+				notify(pi, ctx, formatTemplateList(planTemplates, getActiveTemplate().name));
+				return;
+			}
+
+			if (head === "--template") {
+				const name = normalizeArg(rest[0] ?? "");
+				reloadTemplates(ctx);
+				const template = planTemplates.find((candidate) => candidate.name === name);
+				if (!template) {
+					notify(
+						pi,
+						ctx,
+						`Unknown plan template: ${rest[0] ?? "(none)"}. Available: ${planTemplates.map((candidate) => candidate.name).join(", ")}`,
+						"warning",
+					);
+					return;
+				}
+				const conflict = getPlanningConflict();
+				if (conflict) {
+					notify(pi, ctx, `${conflict} before planning another task.`, "warning");
+					return;
+				}
+				if (!planModeEnabled) {
+					enterPlanMode(ctx);
+					if (!planModeEnabled) return;
+				}
+				planTemplate = template.name === DEFAULT_TEMPLATE_NAME ? null : template.name;
+				setStatus(ctx);
+
+				const task = raw.replace(/^--template\s+\S+\s*/, "");
+				if (task.length > 0) {
+					pi.sendUserMessage(task);
+				} else {
+					notify(pi, ctx, `Plan template set to ${template.name}.`);
+				}
+				return;
+			}
+
+			if (isPlanLibraryCommand(subcommand, rest)) {
+				await handlePlanLibraryCommand(ctx, subcommand, rest);
+				return;
+			}
+
+			if (subcommand === "summary" && rest.length === 0) {
+				if (todoItems.length === 0) {
+					notify(pi, ctx, "No tracked plan steps to summarize.", "info");
+					return;
+				}
+				sendExecutionSummary(ctx, { writeFile: true });
+				return;
+			}
+
+			if (subcommand === "blocked" && rest.length === 0) {
+				notify(
+					pi,
+					ctx,
+					blockedActions.length > 0
+						? formatBlockedActions(blockedActions)
+						: "No blocked actions recorded in this session.",
+				);
+				return;
+			}
+
+			if (subcommand === "verify" && rest.length === 0) {
+				if (planModeEnabled || todoItems.length === 0) {
+					notify(pi, ctx, "No approved plan to verify.", "warning");
+					return;
+				}
+				if (!startVerification(ctx)) {
+					notify(pi, ctx, "No plan step declares a validation command.", "warning");
+				}
+				return;
+			}
+
+			if (subcommand === "history" && rest.length === 0) {
+				notify(
+					pi,
+					ctx,
+					revisions.length > 0
+						? formatRevisionList(revisions, activeRevision ?? undefined)
+						: "No plan revisions recorded yet.",
+				);
+				return;
+			}
+
+			if (subcommand === "diff" && numericArgs && numericArgs.length <= 2) {
+				if (revisions.length < 2) {
+					notify(pi, ctx, "Need at least two plan revisions to diff.", "warning");
+					return;
+				}
+				const latest = activeRevision ?? revisions.length;
+				const fromRevision = findRevision(numericArgs[0] ?? latest - 1);
+				const toRevision = findRevision(numericArgs[1] ?? latest);
+				if (!fromRevision || !toRevision) {
+					const available = revisions
+						.map((revision) => `r${revision.revision}`)
+						.join(", ");
+					notify(pi, ctx, `Unknown plan revision. Available: ${available}`, "warning");
+					return;
+				}
+				notify(pi, ctx, formatPlanDiff(fromRevision, toRevision));
+				return;
+			}
+
+			if (subcommand === "revert" && numericArgs?.length === 1) {
+				if (!planModeEnabled) {
+					notify(pi, ctx, "Plan revert is only available in plan mode.", "warning");
+					return;
+				}
+				const target = findRevision(numericArgs[0]);
+				if (!target) {
+					notify(pi, ctx, `Unknown plan revision: ${rest[0]}`, "warning");
+					return;
+				}
+				todoItems = cloneTodoItems(target.steps, true);
+				planRisks = [...(target.risks ?? [])];
+				activeRevision = target.revision;
+				setStatus(ctx);
+				notify(
+					pi,
+					ctx,
+					`Reverted to plan revision r${target.revision} (${target.steps.length} steps).`,
+				);
+				if (ctx.hasUI && ctx.isIdle()) {
+					await promptNextAction(ctx);
+				}
+				return;
+			}
+
+			if (subcommand === "check") {
+				const target = raw.slice(head.length).trim();
+				const toolName = target.match(/^--tool\s+(\S+)$/)?.[1];
+				const bashCommand = target.replace(/^--(?:\s+|$)/, "");
+				if (bashCommand.length === 0 || (target.startsWith("--tool") && !toolName)) {
+					notify(
+						pi,
+						ctx,
+						"Usage: /plan check <command> | /plan check --tool <name>",
+						"warning",
+					);
+					return;
+				}
+				reloadPolicy(ctx);
+				notify(
+					pi,
+					ctx,
+					toolName
+						? explainToolDecision(toolName)
+						: formatBashExplanation(
+								bashCommand,
+								explainBashCommand(bashCommand, bashPolicy),
+							),
+				);
+				return;
+			}
+
+			if (subcommand === "rollback") {
+				if (!isRollbackArgs(rest)) {
+					notify(pi, ctx, "Usage: /plan rollback [step] [--yes]", "warning");
+					return;
+				}
+				await rollbackToCheckpoint(ctx, rest);
+				return;
+			}
+
+			if (["config", "policy"].includes(command)) {
+				reloadPolicy(ctx);
+				notify(
+					pi,
+					ctx,
+					formatPlanPolicy(policy, {
+						readOnlyTools: getReadOnlyToolCandidates(),
+						writeLikeTools: getWriteLikeTools(),
+						fileScope: policy.fileScope ?? DEFAULT_FILE_SCOPE_MODE,
+						verify: policy.verify ?? DEFAULT_VERIFICATION_MODE,
+					}),
+				);
+				return;
+			}
+
+			const conflict = getPlanningConflict();
+			if (conflict) {
+				notify(pi, ctx, `${conflict} before planning another task.`, "warning");
+				return;
+			}
+			if (!planModeEnabled) {
+				enterPlanMode(ctx);
+			}
+
+			pi.sendUserMessage(raw);
+		},
 	});
 
-	pi.on("session_start", async (_event, ctx) => {
+	/** Why `/plan <task>` must not reset the tracked plan; clearing it takes an explicit /plan off. */
+	const getPlanningConflict = (): string | undefined => {
+		if (planModeEnabled) return undefined;
+		if (executionMode) {
+			return "An approved plan is executing. Finish it or run /plan off";
+		}
+		if (checkpoints.length > 0) {
+			return "The last plan's checkpoints are kept for /plan rollback. Run /plan off to clear them";
+		}
+		return undefined;
+	};
+
+	const loadPlan = async (
+		ctx: ExtensionContext,
+		plan: SavedPlan,
+		source: string,
+	): Promise<void> => {
+		if (executionMode) {
+			notify(
+				pi,
+				ctx,
+				"An approved plan is executing. Finish it or run /plan off before loading another plan.",
+				"warning",
+			);
+			return;
+		}
+		if (!planModeEnabled) {
+			enterPlanMode(ctx);
+			if (!planModeEnabled) return;
+		}
+
+		if (
+			plan.template &&
+			planTemplates.some((template) => template.name === plan.template)
+		) {
+			planTemplate = plan.template;
+		}
+		todoItems = plan.steps;
+		planRisks = plan.risks;
+		contractReport = undefined;
+		clarifyingQuestions = [];
+		pendingRevision = { trigger: "import", note: source };
+		recordRevision(todoItems, planRisks);
 		setStatus(ctx);
+		notify(
+			pi,
+			ctx,
+			`Loaded plan "${plan.name}" from ${source} as revision r${activeRevision} (${flattenSteps(todoItems).length} steps).`,
+		);
+
+		if (!ctx.hasUI) {
+			announcePendingDecision();
+			return;
+		}
+		if (ctx.isIdle()) {
+			await promptNextAction(ctx);
+		}
+	};
+
+	const handlePlanLibraryCommand = async (
+		ctx: ExtensionContext,
+		subcommand: string,
+		args: string[],
+	): Promise<void> => {
+		if (subcommand === "list") {
+			const entries = listSavedPlans(ctx.cwd);
+			notify(
+				pi,
+				ctx,
+				entries.length > 0
+					? formatPlanList(entries)
+					: `No saved plans in ${getPlanLibraryDirectory(ctx.cwd)}.`,
+			);
+			return;
+		}
+
+		if (subcommand === "import") {
+			const plan = readPlanFile(resolve(ctx.cwd, args[0]), getPlanFileSectionOptions);
+			if (typeof plan === "string") {
+				notify(pi, ctx, `Could not import plan: ${plan}`, "error");
+				return;
+			}
+			await loadPlan(ctx, plan, args[0]);
+			return;
+		}
+
+		if (subcommand === "load") {
+			if (args.length !== 1) {
+				notify(pi, ctx, "Usage: /plan load <name>", "warning");
+				return;
+			}
+			const entry = findSavedPlan(ctx.cwd, args[0]);
+			if (!entry) {
+				notify(pi, ctx, `No saved plan named "${args[0]}". See /plan list.`, "warning");
+				return;
+			}
+			const plan = readPlanFile(entry.path, getPlanFileSectionOptions);
+			if (typeof plan === "string") {
+				notify(pi, ctx, `Could not load plan: ${plan}`, "error");
+				return;
+			}
+			await loadPlan(ctx, plan, `the plan library (${entry.name}.${entry.format})`);
+			return;
+		}
+
+		if (todoItems.length === 0) {
+			notify(pi, ctx, `No tracked plan to ${subcommand}.`, "warning");
+			return;
+		}
+
+		if (subcommand === "save") {
+			const name = args[0];
+			if (args.length !== 1 || !isValidPlanName(name)) {
+				notify(
+					pi,
+					ctx,
+					"Usage: /plan save <name> (letters, digits, '.', '-', '_')",
+					"warning",
+				);
+				return;
+			}
+			const path = join(getPlanLibraryDirectory(ctx.cwd), `${name}.json`);
+			if (existsSync(path) && ctx.hasUI) {
+				const confirmed = await ctx.ui.confirm(
+					"Replace saved plan",
+					`A plan named "${name}" already exists. Replace it?`,
+				);
+				if (!confirmed) {
+					return;
+				}
+			}
+			const error = writePlanFile(
+				path,
+				createSavedPlan(name, todoItems, planRisks, planTemplate),
+				"json",
+			);
+			notify(
+				pi,
+				ctx,
+				error ? `Could not save plan: ${error}` : `Saved plan "${name}" to ${path}.`,
+				error ? "error" : "info",
+			);
+			return;
+		}
+
+		const flags = args.filter((arg) => arg === "--json" || arg === "--md");
+		const paths = args.filter((arg) => arg !== "--json" && arg !== "--md");
+		if (flags.length > 1 || paths.length > 1) {
+			notify(pi, ctx, "Usage: /plan export [--json|--md] [path]", "warning");
+			return;
+		}
+		const format: PlanFileFormat = flags[0] === "--json" ? "json" : "md";
+		const name = `plan-r${activeRevision ?? revisions.length}`;
+		const path = paths[0]
+			? resolve(ctx.cwd, paths[0])
+			: join(getPlanLibraryDirectory(ctx.cwd), `${name}.${format}`);
+		const error = writePlanFile(
+			path,
+			createSavedPlan(name, todoItems, planRisks, planTemplate),
+			format,
+			getActiveTemplate().stepsHeading,
+		);
+		notify(
+			pi,
+			ctx,
+			error ? `Could not export plan: ${error}` : `Exported plan to ${path}.`,
+			error ? "error" : "info",
+		);
+	};
+
+	const rollbackToCheckpoint = async (
+		ctx: ExtensionContext,
+		args: string[],
+	): Promise<void> => {
+		const confirmedByFlag = args.includes("--yes");
+		const stepArgs = args.filter((arg) => arg !== "--yes");
+		if (checkpoints.length === 0) {
+			notify(
+				pi,
+				ctx,
+				"No plan checkpoints recorded. Checkpoints are created when a plan is approved in a git repository.",
+				"warning",
+			);
+			return;
+		}
+
+		const step = stepArgs[0]?.replace(/[.)]$/, "");
+		const checkpoint = findRollbackCheckpoint(checkpoints, step);
+		if (!checkpoint) {
+			notify(
+				pi,
+				ctx,
+				`No checkpoint before step ${step}.\n${formatCheckpoints(checkpoints)}`,
+				"warning",
+			);
+			return;
+		}
+
+		const target = checkpoint.beforeStep
+			? `before step ${checkpoint.beforeStep}`
+			: "after the last step";
+		let diff: string;
+		try {
+			diff = await diffCheckpoint(ctx.cwd, checkpoint);
+		} catch (error) {
+			notify(
+				pi,
+				ctx,
+				`Could not diff plan checkpoint: ${(error as Error).message}`,
+				"error",
+			);
+			return;
+		}
+
+		if (!confirmedByFlag) {
+			if (!ctx.hasUI) {
+				notify(
+					pi,
+					ctx,
+					`Rolling back to the checkpoint ${target} would change:\n${diff}\nRun /plan rollback ${step ? `${step} ` : ""}--yes to apply.`,
+				);
+				return;
+			}
+			const confirmed = await ctx.ui.confirm(
+				`Roll back to the checkpoint ${target}?`,
+				`${diff}\n\nWorking tree changes made after the checkpoint are discarded.`,
+			);
+			if (!confirmed) {
+				notify(pi, ctx, "Rollback cancelled.", "info");
+				return;
+			}
+		}
+
+		try {
+			const backup = await createCheckpoint(
+				ctx.cwd,
+				(checkpoints.at(-1)?.id ?? 0) + 1,
+				"before rollback",
+				getNextOpenStep()?.id ?? null,
+			);
+			await restoreCheckpoint(ctx.cwd, checkpoint);
+			discardCheckpoints(
+				ctx,
+				checkpoints.filter((candidate) => candidate.id > checkpoint.id),
+			);
+
+			const leaves = flattenSteps(todoItems).filter((item) => item.children.length === 0);
+			const reopenFrom = checkpoint.beforeStep
+				? leaves.findIndex(
+						(item) =>
+							item.id === checkpoint.beforeStep ||
+							item.id.startsWith(`${checkpoint.beforeStep}.`),
+					)
+				: -1;
+			if (reopenFrom !== -1) {
+				for (const item of leaves.slice(reopenFrom)) {
+					setStepCompletion(item, false);
+				}
+				syncParentCompletion(todoItems);
+				executionMode = !planModeEnabled;
+				verificationMode = false;
+				verificationReport = [];
+			}
+			setStatus(ctx);
+			notify(
+				pi,
+				ctx,
+				`Rolled back to the checkpoint ${target}. The previous working tree is kept as commit ${backup.commit.slice(0, 12)}.`,
+			);
+		} catch (error) {
+			notify(pi, ctx, `Rollback failed: ${(error as Error).message}`, "error");
+		}
+	};
+
+	const completeExecutionIfDone = async (ctx: ExtensionContext): Promise<void> => {
+		if (!executionMode || !todoItems.every((item) => item.completed)) {
+			return;
+		}
+		executionMode = false;
+		stepwiseExecution = false;
+		setStatus(ctx);
+		notify(pi, ctx, "All tracked plan steps are complete.", "info");
+		emitPlanEvent(PLAN_EVENTS.executionFinished, { summary: sendExecutionSummary(ctx) });
+
+		const mode = policy.verify ?? DEFAULT_VERIFICATION_MODE;
+		if (mode === "off" || collectValidationSteps(todoItems).length === 0) {
+			return;
+		}
+		if (mode === "ask") {
+			if (!ctx.hasUI) {
+				notify(pi, ctx, "Run /plan verify to check each step's declared validation.");
+				return;
+			}
+			const confirmed = await ctx.ui.confirm(
+				"Verify plan",
+				"Run each step's declared validation now?",
+			);
+			if (!confirmed) {
+				return;
+			}
+		}
+		startVerification(ctx);
+	};
+
+	pi.registerTool({
+		name: PLAN_PROGRESS_TOOL,
+		label: "Plan Progress",
+		description:
+			"Report progress on the approved plan while executing it. Mark a step (or sub-step such as 2.1) done, blocked, or skipped with a short note. Returns the remaining steps.",
+		parameters: PlanProgressParams,
+		async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+			const text = (value: string) => ({
+				content: [{ type: "text" as const, text: value }],
+				details: undefined,
+			});
+			if (!executionMode) {
+				return text("No approved plan is executing. Progress was not recorded.");
+			}
+
+			const item = findStep(todoItems, params.step.replace(/[.)]$/, ""));
+			if (!item) {
+				const openSteps = flattenSteps(todoItems)
+					.filter((candidate) => !candidate.completed)
+					.map((candidate) => candidate.id);
+				return text(
+					`Unknown plan step "${params.step}". Open steps: ${openSteps.join(", ")}`,
+				);
+			}
+
+			applyStepProgress(todoItems, item, params.status, params.note);
+			if (stepwiseExecution && params.status !== "blocked") {
+				stepsAwaitingReview = [...new Set([...stepsAwaitingReview, item.id])];
+			}
+			setStatus(ctx);
+			if (params.status === "done") {
+				emitPlanEvent(PLAN_EVENTS.stepCompleted, { step: toPlanStepState(item) });
+				await recordCheckpoint(ctx, `step ${item.id} done`);
+			}
+			await completeExecutionIfDone(ctx);
+
+			const remaining = todoItems
+				.filter((candidate) => !candidate.completed)
+				.map((candidate) => formatStepContract(candidate))
+				.join("\n");
+			return text(
+				remaining
+					? `Step ${item.id} marked ${params.status}.\nRemaining steps:\n${remaining}`
+					: `Step ${item.id} marked ${params.status}. All tracked plan steps are complete.`,
+			);
+		},
+	});
+
+	const editTodos = (args: string): { message: string; updated: boolean } | undefined => {
+		const [head, ...rest] = args.split(/\s+/);
+		const action = normalizeArg(head);
+		const stepId = rest[0]?.replace(/[.)]$/, "");
+		const located = stepId ? locateStep(todoItems, stepId) : undefined;
+		const target = located ? located.siblings[located.index] : undefined;
+
+		if (action === "add") {
+			const afterIndex = rest.indexOf("--after");
+			const after = afterIndex === -1 ? undefined : rest[afterIndex + 1];
+			const text = rest
+				.filter(
+					(_, index) => afterIndex === -1 || index < afterIndex || index > afterIndex + 1,
+				)
+				.join(" ");
+			if (text.length === 0 || (afterIndex !== -1 && !after)) {
+				return { message: "Usage: /todos add <text> [--after n]", updated: false };
+			}
+			const anchor = after
+				? locateStep(todoItems, after.replace(/[.)]$/, ""))
+				: undefined;
+			if (after && !anchor) {
+				return { message: `Unknown plan step: ${after}`, updated: false };
+			}
+			const item = createTodoItem(text);
+			if (anchor) {
+				anchor.siblings.splice(anchor.index + 1, 0, item);
+			} else {
+				todoItems.push(item);
+			}
+			renumberSteps(todoItems);
+			syncParentCompletion(todoItems);
+			return { message: `Added step ${item.id}: ${item.text}`, updated: true };
+		}
+
+		if (!["done", "undo", "skip", "edit", "move"].includes(action)) {
+			return undefined;
+		}
+		if (!located || !target) {
+			return {
+				message: stepId ? `Unknown plan step: ${rest[0]}` : `Usage: /todos ${action} <n>`,
+				updated: false,
+			};
+		}
+
+		if (action === "done" || action === "undo" || action === "skip") {
+			if (rest.length !== 1) {
+				return { message: `Usage: /todos ${action} <n>`, updated: false };
+			}
+			setStepCompletion(target, action !== "undo", action === "skip");
+			syncParentCompletion(todoItems);
+			const label = { done: "completed", undo: "reopened", skip: "skipped" }[action];
+			return { message: `Step ${target.id} marked ${label}.`, updated: true };
+		}
+
+		if (action === "edit") {
+			const text = rest.slice(1).join(" ");
+			if (text.length === 0) {
+				return { message: "Usage: /todos edit <n> <text>", updated: false };
+			}
+			const details = target.fullText.split("\n").slice(1);
+			updateStepText(target, [text, ...details].join("\n"));
+			return { message: `Step ${target.id} updated: ${target.text}`, updated: true };
+		}
+
+		const position = Number(rest[1]);
+		if (rest.length !== 2 || !Number.isInteger(position) || position < 1) {
+			return { message: "Usage: /todos move <n> <pos>", updated: false };
+		}
+		const { siblings, index } = located;
+		siblings.splice(index, 1);
+		siblings.splice(Math.min(position, siblings.length + 1) - 1, 0, target);
+		renumberSteps(todoItems);
+		return { message: `Moved step to ${target.id}: ${target.text}`, updated: true };
+	};
+
+	pi.registerCommand("todos", {
+		description:
+			"Show or edit tracked plan progress. Usage: /todos [--detail], /todos done|undo|skip <n>, /todos add <text> [--after n], /todos edit <n> <text>, /todos move <n> <pos>",
+		handler: async (args, ctx) => {
+			if (todoItems.length === 0) {
+				notify(
+					pi,
+					ctx,
+					"No tracked plan steps. Create a plan in /plan mode first.",
+					"info",
+				);
+				return;
+			}
+
+			const detail = /(?:^|\s)--detail$/.test(args.trim());
+			const raw = args.trim().replace(/(?:^|\s)--detail$/, "");
+			if (raw.length > 0) {
+				const result = editTodos(raw);
+				if (!result) {
+					notify(pi, ctx, `Unknown /todos subcommand: ${raw}`, "warning");
+					return;
+				}
+				if (!result.updated) {
+					notify(pi, ctx, result.message, "warning");
+					return;
+				}
+				setStatus(ctx);
+				notify(pi, ctx, result.message, "info");
+				await completeExecutionIfDone(ctx);
+				return;
+			}
+
+			const completed = todoItems.filter((item) => item.completed).length;
+			const progress = `${completed}/${todoItems.length}`;
+			const list = formatTodoTree(todoItems, { detail }).join("\n");
+			notify(pi, ctx, `Plan progress ${progress}\n${list}`, "info");
+		},
+	});
+
+	const checkExecutionScope = async (
+		toolName: string,
+		input: unknown,
+		ctx: ExtensionContext,
+	): Promise<{ block: true; reason: string } | undefined> => {
+		const mode = policy.fileScope ?? DEFAULT_FILE_SCOPE_MODE;
+		const scope = [...new Set(flattenSteps(todoItems).flatMap((item) => item.files))];
+		if (mode === "off" || scope.length === 0) {
+			return undefined;
+		}
+
+		const outside = getToolTargetPaths(input).filter(
+			(path) => !isPathInScope(path, scope, ctx.cwd),
+		);
+		if (outside.length === 0) {
+			return undefined;
+		}
+
+		const paths = outside.join(", ");
+		if (mode === "warn") {
+			notify(
+				pi,
+				ctx,
+				`${toolName} is editing outside the approved plan: ${paths}`,
+				"warning",
+			);
+			return undefined;
+		}
+
+		if (mode === "ask" && ctx.hasUI) {
+			const approved = await ctx.ui.confirm(
+				"Edit outside the approved plan",
+				`${toolName} wants to modify ${paths}, which is not in the plan's file set. Allow it and add it to the plan?`,
+			);
+			if (approved) {
+				const owner = getNextOpenStep() ?? flattenSteps(todoItems).at(-1);
+				if (owner) {
+					owner.files = [...new Set([...owner.files, ...outside])];
+				}
+				setStatus(ctx);
+				notify(
+					pi,
+					ctx,
+					`Added ${paths} to the plan scope${owner ? ` (step ${owner.id})` : ""}.`,
+				);
+				return undefined;
+			}
+		}
+
+		return {
+			block: true,
+			reason: `Approved plan scope does not include ${paths}. Plan files: ${scope.join(", ")}. Ask the user to add the file to the plan (for example with /todos edit) before changing it.`,
+		};
+	};
+
+	const promptBlockedBashCommand = async (
+		ctx: ExtensionContext,
+		command: string,
+		verdict: BashVerdict,
+	): Promise<"block" | "once" | "always"> => {
+		const options = ["Block", "Allow once"];
+		const commandText = verdict.commandText;
+		if (commandText && !bashPolicy.deny.some((pattern) => pattern.test(commandText))) {
+			options.push("Always allow in this project");
+		}
+		const segment = verdict.segment ?? command;
+		const context = segment === command ? "" : `\nIn: ${command}`;
+		const choice = await ctx.ui.select(
+			`Plan mode blocked: ${segment}${context}\nReason: ${verdict.reason}\nRule: ${verdict.rule ?? "unknown"}`,
+			options,
+		);
+		if (choice === "Allow once") {
+			return "once";
+		}
+		if (choice !== "Always allow in this project" || !commandText) {
+			return "block";
+		}
+
+		const pattern = createBashAllowPattern(commandText);
+		const error = addProjectBashAllowPattern(ctx.cwd, pattern);
+		if (error) {
+			notify(pi, ctx, `Could not update the project allowlist: ${error}`, "error");
+			return "once";
+		}
+		reloadPolicy(ctx);
+		notify(pi, ctx, `Added ${pattern} to the project bash allowlist.`);
+		return "always";
+	};
+
+	pi.on("input", async (event, ctx) => {
+		if (
+			!policy.suggestPlanMode ||
+			planSuggestionsMuted ||
+			planModeEnabled ||
+			executionMode ||
+			verificationMode ||
+			event.source !== "interactive" ||
+			!ctx.hasUI ||
+			!ctx.isIdle() ||
+			event.text.trimStart().startsWith("/")
+		) {
+			return { action: "continue" };
+		}
+
+		const reasons = getPlanSuggestionReasons(event.text, getPlanSuggestionRules(policy));
+		if (reasons.length === 0) {
+			return { action: "continue" };
+		}
+
+		const choice = await ctx.ui.select(
+			`This request looks large or risky: ${reasons.join("; ")}.\nPlan it in read-only plan mode first?`,
+			["Plan first", "Run in YOLO mode", "Run in YOLO mode and stop asking this session"],
+		);
+		if (choice === "Plan first") {
+			// The request itself continues unchanged and is now answered under the plan-mode prompt.
+			enterPlanMode(ctx);
+		} else if (choice === "Run in YOLO mode and stop asking this session") {
+			planSuggestionsMuted = true;
+		}
+		return { action: "continue" };
+	});
+
+	pi.on("tool_call", async (event, ctx) => {
+		if (executionMode && isWriteLikeTool(event.toolName)) {
+			return checkExecutionScope(event.toolName, event.input, ctx);
+		}
+
+		if (!planModeEnabled) {
+			return;
+		}
+
+		if (isWriteLikeTool(event.toolName)) {
+			recordBlockedAction(
+				ctx,
+				event.toolName,
+				event.input,
+				"write-like tool in plan mode",
+			);
+			return {
+				block: true,
+				reason: `Plan mode is read-only. Approve execution first (choose 'Approve and execute now').\n${explainToolDecision(event.toolName)}`,
+			};
+		}
+
+		if (event.toolName === "bash") {
+			const input = event.input as { command?: unknown };
+			const command = typeof input.command === "string" ? input.command : "";
+			let verdict = analyzeBashCommand(command, bashPolicy);
+			while (!verdict.allowed && ctx.hasUI) {
+				const decision = await promptBlockedBashCommand(ctx, command, verdict);
+				if (decision === "once") {
+					return;
+				}
+				if (decision === "block") {
+					break;
+				}
+				verdict = analyzeBashCommand(command, bashPolicy);
+			}
+			if (!verdict.allowed) {
+				recordBlockedAction(
+					ctx,
+					event.toolName,
+					event.input,
+					verdict.rule ?? "bash read-only policy",
+					verdict.reason,
+				);
+				return {
+					block: true,
+					reason: `Plan mode blocked a potentially mutating bash command.\n${formatBashExplanation(command, explainBashCommand(command, bashPolicy))}\nUse a read-only alternative for the blocked segment, or leave the change for the approved plan.`,
+				};
+			}
+		}
+	});
+
+	pi.on("before_agent_start", async (event) => {
+		const yoloPrompt = policy.yoloModePrompt ?? YOLO_MODE_SYSTEM_PROMPT;
+		if (planModeEnabled) {
+			return {
+				systemPrompt: `${event.systemPrompt}\n\n${
+					planTemplate || !policy.planModePrompt
+						? buildPlanModePrompt(getActiveTemplate())
+						: policy.planModePrompt
+				}`,
+			};
+		}
+
+		if (verificationMode) {
+			return {
+				systemPrompt: `${event.systemPrompt}\n\n${yoloPrompt}\n\n${buildVerificationPrompt(collectValidationSteps(todoItems))}`,
+			};
+		}
+
+		if (executionMode && stepwiseExecution) {
+			const nextStep = getNextOpenStep();
+			const executionPrompt = nextStep
+				? `[APPROVED PLAN EXECUTION — STEP BY STEP]\nComplete only this step, then stop and wait for the user's review:\n${formatStepContract(nextStep)}\n\nWhen the step is complete, call ${PLAN_PROGRESS_TOOL} with step "${nextStep.id}" (or include a [DONE:${nextStep.id}] marker) and end your turn without starting the next step.`
+				: "[APPROVED PLAN EXECUTION]\nFinish implementation and verify results.";
+			return {
+				systemPrompt: `${event.systemPrompt}\n\n${yoloPrompt}\n\n${executionPrompt}`,
+			};
+		}
+
+		if (executionMode && todoItems.length > 0) {
+			const remaining = todoItems
+				.filter((item) => !item.completed)
+				.map((item) => formatStepContract(item))
+				.join("\n");
+			const generalRisks =
+				planRisks.length > 0 ? `\n\nGeneral risks:\n- ${planRisks.join("\n- ")}` : "";
+			const executionPrompt = remaining
+				? `[APPROVED PLAN EXECUTION]\nComplete the remaining steps in order. Each step lists its target files, validation, and risks:\n${remaining}${generalRisks}\n\nAfter each step, call the ${PLAN_PROGRESS_TOOL} tool with the step id and status (done, blocked, or skipped) plus a short note. If the tool is unavailable, include a [DONE:n] marker instead (use [DONE:2.1] for sub-steps; a parent step completes when all of its sub-steps are done).`
+				: "[APPROVED PLAN EXECUTION]\nFinish implementation and verify results.";
+
+			return {
+				systemPrompt: `${event.systemPrompt}\n\n${yoloPrompt}\n\n${executionPrompt}`,
+			};
+		}
+
+		return {
+			systemPrompt: `${event.systemPrompt}\n\n${yoloPrompt}`,
+		};
+	});
+
+	pi.on("turn_start", async () => {
+		const step = executionMode ? getActiveStep() : undefined;
+		turnStepId = step?.id;
+		if (step) {
+			step.startedAt ??= Date.now();
+		}
+	});
+
+	pi.on("turn_end", async (event, ctx) => {
+		if (!executionMode || todoItems.length === 0) {
+			return;
+		}
+
+		const turnStep = turnStepId ? findStep(todoItems, turnStepId) : undefined;
+		turnStepId = undefined;
+		if (turnStep) {
+			turnStep.turns = (turnStep.turns ?? 0) + 1;
+		}
+
+		const text = getMessageText(event.message);
+		if (!text) {
+			persistState();
+			await checkStalledStep(ctx);
+			return;
+		}
+
+		const openBefore = flattenSteps(todoItems).filter((item) => !item.completed);
+		const completedCount = markCompletedSteps(text, todoItems);
+		const newlyCompleted = openBefore
+			.filter((item) => item.completed && item.children.length === 0)
+			.map((item) => item.id);
+		if (stepwiseExecution) {
+			stepsAwaitingReview = [...new Set([...stepsAwaitingReview, ...newlyCompleted])];
+		}
+		if (completedCount > 0) {
+			setStatus(ctx);
+		} else {
+			persistState();
+		}
+		for (const id of newlyCompleted) {
+			const step = findStep(todoItems, id);
+			if (step) {
+				emitPlanEvent(PLAN_EVENTS.stepCompleted, { step: toPlanStepState(step) });
+			}
+		}
+		if (newlyCompleted.length > 0) {
+			await recordCheckpoint(ctx, `step ${newlyCompleted.join(", ")} done`);
+		}
+
+		await completeExecutionIfDone(ctx);
+		if (executionMode) {
+			await checkStalledStep(ctx);
+		}
+	});
+
+	pi.on("tool_result", async (event, ctx) => {
+		const step = executionMode ? getActiveStep() : undefined;
+		if (!step || event.toolName === PLAN_PROGRESS_TOOL) {
+			return;
+		}
+		step.startedAt ??= Date.now();
+		step.toolCalls = (step.toolCalls ?? 0) + 1;
+
+		if (event.toolName === "bash") {
+			const command = event.input.command;
+			if (typeof command === "string" && command.trim().length > 0) {
+				step.commands = [...(step.commands ?? []), command.trim()];
+			}
+			return;
+		}
+
+		if (event.isError || !isWriteLikeTool(event.toolName)) {
+			return;
+		}
+		const paths = getToolTargetPaths(event.input).map((path) =>
+			normalizeScopePath(path, ctx.cwd),
+		);
+		step.touchedFiles = [...new Set([...(step.touchedFiles ?? []), ...paths])];
+	});
+
+	pi.on("agent_end", async (event, ctx) => {
+		if (stallReplanMessage) {
+			const message = stallReplanMessage;
+			stallReplanMessage = undefined;
+			pi.sendUserMessage(message);
+			return;
+		}
+
+		if (verificationMode) {
+			const requestIndex = event.messages
+				.map((message) => getMessageText(message, "user"))
+				.lastIndexOf(VERIFICATION_TRIGGER_PROMPT);
+			if (requestIndex !== -1) {
+				const text = event.messages
+					.slice(requestIndex + 1)
+					.map((message) => getMessageText(message))
+					.join("\n");
+				finishVerification(text, ctx);
+			}
+			return;
+		}
+
+		if (executionMode && stepwiseExecution && stepsAwaitingReview.length > 0) {
+			await promptStepReview(ctx);
+			return;
+		}
+
+		if (!planModeEnabled) {
+			return;
+		}
+
+		const lastAssistantText = [...event.messages]
+			.reverse()
+			.map((message) => getMessageText(message))
+			.find((text) => text.length > 0);
+
+		contractReport = undefined;
+		clarifyingQuestions = lastAssistantText
+			? extractClarifyingQuestions(lastAssistantText)
+			: [];
+		if (lastAssistantText) {
+			const extracted = extractPlan(lastAssistantText, getPlanSectionOptions());
+			if (extracted.steps.length > 0) {
+				todoItems = extracted.steps;
+				planRisks = extracted.risks;
+				recordRevision(extracted.steps, extracted.risks);
+			}
+			contractReport = lintPlanContract(
+				lastAssistantText,
+				getActiveTemplate(),
+				extracted.steps.length,
+			);
+		}
+		setStatus(ctx);
+
+		const contractSummary = contractReport
+			? formatContractSummary(contractReport)
+			: undefined;
+		if (
+			contractReport &&
+			contractSummary &&
+			policy.contractAutoReprompt &&
+			!contractReprompted &&
+			clarifyingQuestions.length === 0
+		) {
+			contractReprompted = true;
+			notify(
+				pi,
+				ctx,
+				`${contractSummary}\nAsking the agent to complete the plan.`,
+				"info",
+			);
+			pi.sendUserMessage(buildContractRepromptMessage(contractReport));
+			return;
+		}
+		contractReprompted = false;
+
+		if (!ctx.hasUI) {
+			if (todoItems.length > 0 || clarifyingQuestions.length > 0) {
+				announcePendingDecision();
+			}
+			return;
+		}
+		await promptNextAction(ctx);
+	});
+
+	const restoreState = (ctx: ExtensionContext): void => {
+		const wasPlanModeEnabled = planModeEnabled;
+		const previousRestoreTools = restoreTools;
+		const entries = ctx.sessionManager.getBranch();
+		const state = findLatestPlanState(entries);
+
+		planModeEnabled = state?.planModeEnabled ?? false;
+		executionMode = state?.executionMode ?? false;
+		stepwiseExecution = state?.stepwiseExecution ?? false;
+		planTemplate = state?.planTemplate ?? null;
+		verificationMode = state?.verificationMode ?? false;
+		verificationReport = [];
+		stepsAwaitingReview = [];
+		restoreTools = state?.restoreTools ?? null;
+		todoItems = state?.todoItems ?? [];
+		planRisks = state?.planRisks ?? [];
+		revisions = collectPlanRevisions(entries, state?.revisionCount ?? 0);
+		activeRevision = state?.activeRevision ?? null;
+		checkpoints = state?.checkpoints ?? [];
+		pendingRevision = undefined;
+		contractReport = undefined;
+		contractReprompted = false;
+		clarifyingQuestions = [];
+		stallWarnedSteps = new Set();
+		stallReplanMessage = undefined;
+		lastPersistedState = JSON.stringify(getStateSnapshot());
+		blockedActions = collectBlockedActions(entries);
+		lastDecisionAt = blockedActions.at(-1)?.timestamp ?? 0;
+
+		if (planModeEnabled) {
+			pi.setActiveTools(getPlanTools());
+		} else if (wasPlanModeEnabled) {
+			restoreTools = previousRestoreTools;
+			restoreNormalTools();
+		}
+		setStatus(ctx);
+	};
+
+	const requestModeChange = async (
+		ctx: ExtensionContext,
+		request: PlanModeRequest,
+	): Promise<string | undefined> => {
+		if (request === "plan") {
+			enterPlanMode(ctx);
+			return planModeEnabled ? undefined : "Plan mode could not be enabled.";
+		}
+		if (request === "yolo") {
+			exitPlanMode(ctx, "Plan mode disabled. Back to YOLO mode.", {
+				resetProgress: true,
+			});
+			return undefined;
+		}
+		if (!planModeEnabled) {
+			return "Plans can only be approved in plan mode.";
+		}
+		if (todoItems.length === 0) {
+			return "No proposed plan to approve yet.";
+		}
+		await applyNextAction(ctx, { cancelled: false, action: request });
+		return undefined;
+	};
+
+	const planApi: PlanApi = {
+		version: PLAN_API_VERSION,
+		getState: getPlanState,
+		requestModeChange,
+	};
+
+	pi.events.on(PLAN_API_REQUEST_EVENT, (data) => {
+		(data as PlanApiRequest).respond(planApi);
+	});
+
+	pi.on("session_start", async (_event, ctx) => {
+		reloadPolicy(ctx);
+		reloadTemplates(ctx);
+		restoreState(ctx);
+	});
+
+	pi.on("session_switch", async (_event, ctx) => {
+		reloadPolicy(ctx);
+		reloadTemplates(ctx);
+		restoreState(ctx);
+	});
+
+	pi.on("session_fork", async (_event, ctx) => {
+		restoreState(ctx);
+	});
+
+	pi.on("session_tree", async (_event, ctx) => {
+		restoreState(ctx);
 	});
 
 	pi.on("session_shutdown", async (_event, ctx) => {
@@ -0,0 +1,228 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { parseTodoItems } from "./state";
+import { extractPlan, type PlanSectionOptions, type TodoItem } from "./utils";
+
+export type PlanFileFormat = "json" | "md";
+
+export interface SavedPlan {
+	name: string;
+	savedAt: number;
+	template: string | null;
+	steps: TodoItem[];
+	risks: string[];
+}
+
+export interface PlanLibraryEntry {
+	name: string;
+	format: PlanFileFormat;
+	path: string;
+	modifiedAt: number;
+}
+
+export function getPlanLibraryDirectory(cwd: string): string {
+	return join(cwd, ".pi", "plans");
+}
+
+export function isValidPlanName(name: string): boolean {
+	return /^[\w][\w.-]*$/.test(name) && !/\.(?:json|md)$/i.test(name);
+}
+
+function isPlanFilePath(arg: string): boolean {
+	return /[/\\]/.test(arg) || /\.(?:json|md|markdown)$/i.test(arg);
+}
+
+/**
+ * Whether `/plan <subcommand> <args>` has the shape of a library command; anything else
+ * (`/plan save the form state to localStorage`) is a planning task.
+ */
+export function isPlanLibraryCommand(subcommand: string, args: string[]): boolean {
+	switch (subcommand) {
+		case "list":
+			return args.length === 0;
+		case "save":
+		case "load":
+			return args.length === 1 && isValidPlanName(args[0]);
+		case "import":
+			return args.length === 1 && isPlanFilePath(args[0]);
+		case "export":
+			return args.every((arg) => arg === "--json" || arg === "--md" || isPlanFilePath(arg));
+		default:
+			return false;
+	}
+}
+
+function toPlanDefinition(items: TodoItem[]): TodoItem[] {
+	return items.map((item) => ({
+		...item,
+		files: [...item.files],
+		validation: [...item.validation],
+		risks: [...item.risks],
+		completed: false,
+		skipped: undefined,
+		blocked: undefined,
+		note: undefined,
+		touchedFiles: undefined,
+		commands: undefined,
+		startedAt: undefined,
+		finishedAt: undefined,
+		turns: undefined,
+		toolCalls: undefined,
+		children: toPlanDefinition(item.children),
+	}));
+}
+
+export function createSavedPlan(
+	name: string,
+	steps: TodoItem[],
+	risks: string[],
+	template: string | null,
+): SavedPlan {
+	return { name, savedAt: Date.now(), template, steps: toPlanDefinition(steps), risks: [...risks] };
+}
+
+function formatStepMarkdown(item: TodoItem, indent = ""): string[] {
+	const [title, ...details] = item.fullText.split("\n");
+	const nested = `${indent}   `;
+	const number = item.id.includes(".") ? item.id : `${item.id}.`;
+	return [
+		`${indent}${number} ${title}`,
+		...details.map((line) => `${nested}- ${line.replace(/^[-*+]\s+/, "")}`),
+		...(item.files.length > 0
+			? [`${nested}- Files: ${item.files.map((file) => `\`${file}\``).join(", ")}`]
+			: []),
+		...item.validation.map((command) => `${nested}- Validation: \`${command}\``),
+		...item.risks.map((risk) => `${nested}- Risk: ${risk}`),
+		...item.children.flatMap((child) => formatStepMarkdown(child, nested)),
+	];
+}
+
+const TEMPLATE_LINE_PATTERN = /^Template:\s*(\S+)\s*$/m;
+
+/** Renders a plan in the output-contract layout, under its template's steps heading, so it can be imported again. */
+export function formatPlanMarkdown(plan: SavedPlan, stepsHeading = "Plan"): string {
+	return [
+		`# ${plan.name}`,
+		"",
+		...(plan.template ? [`Template: ${plan.template}`, ""] : []),
+		`${stepsHeading}:`,
+		...plan.steps.flatMap((item) => formatStepMarkdown(item)),
+		"",
+		"Risks and rollback notes:",
+		...plan.risks.map((risk) => `- ${risk}`),
+		"",
+		"Ready to execute when approved.",
+		"",
+	].join("\n");
+}
+
+export function writePlanFile(
+	path: string,
+	plan: SavedPlan,
+	format: PlanFileFormat,
+	stepsHeading?: string,
+): string | undefined {
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(
+			path,
+			format === "json"
+				? `${JSON.stringify(plan, null, 2)}\n`
+				: formatPlanMarkdown(plan, stepsHeading),
+			"utf8",
+		);
+		return undefined;
+	} catch (error) {
+		return `${path}: ${(error as Error).message}`;
+	}
+}
+
+/**
+ * Reads a saved or hand-written plan. Markdown steps are looked up under the headings
+ * `getSectionOptions` returns for the file's `Template:` line (null when it has none),
+ * then under the default `Plan:` heading.
+ */
+export function readPlanFile(
+	path: string,
+	getSectionOptions: (template: string | null) => PlanSectionOptions = () => ({}),
+): SavedPlan | string {
+	let content: string;
+	try {
+		content = readFileSync(path, "utf8");
+	} catch (error) {
+		return `${path}: ${(error as Error).message}`;
+	}
+
+	const name = basename(path, extname(path));
+	if (extname(path).toLowerCase() === ".json") {
+		let raw: Partial<SavedPlan>;
+		try {
+			raw = JSON.parse(content) as Partial<SavedPlan>;
+		} catch (error) {
+			return `${path}: invalid JSON (${(error as Error).message})`;
+		}
+		const steps = parseTodoItems(raw?.steps);
+		if (steps.length === 0) {
+			return `${path}: no plan steps found`;
+		}
+		return {
+			name: typeof raw.name === "string" ? raw.name : name,
+			savedAt: typeof raw.savedAt === "number" ? raw.savedAt : statSync(path).mtimeMs,
+			template: typeof raw.template === "string" ? raw.template : null,
+			steps: toPlanDefinition(steps),
+			risks: Array.isArray(raw.risks)
+				? raw.risks.filter((risk): risk is string => typeof risk === "string")
+				: [],
+		};
+	}
+
+	const template = content.match(TEMPLATE_LINE_PATTERN)?.[1] ?? null;
+	const options = getSectionOptions(template);
+	let extracted = extractPlan(content, options);
+	if (extracted.steps.length === 0 && options.stepsHeading !== undefined) {
+		extracted = extractPlan(content);
+	}
+	if (extracted.steps.length === 0) {
+		const headings = [...new Set([options.stepsHeading ?? "Plan", "Plan"])];
+		return `${path}: no numbered steps found under a ${headings.map((heading) => `"${heading}:"`).join(" or ")} heading`;
+	}
+	return {
+		name,
+		savedAt: statSync(path).mtimeMs,
+		template,
+		steps: extracted.steps,
+		risks: extracted.risks,
+	};
+}
+
+export function listSavedPlans(cwd: string): PlanLibraryEntry[] {
+	const directory = getPlanLibraryDirectory(cwd);
+	if (!existsSync(directory)) {
+		return [];
+	}
+	return readdirSync(directory)
+		.filter((file) => /\.(?:json|md)$/i.test(file))
+		.map((file) => {
+			const path = join(directory, file);
+			return {
+				name: basename(file, extname(file)),
+				format: extname(file).slice(1).toLowerCase() as PlanFileFormat,
+				path,
+				modifiedAt: statSync(path).mtimeMs,
+			};
+		})
+		.sort((a, b) => a.name.localeCompare(b.name) || a.format.localeCompare(b.format));
+}
+
+export function findSavedPlan(cwd: string, name: string): PlanLibraryEntry | undefined {
+	const entries = listSavedPlans(cwd).filter((entry) => entry.name === name);
+	return entries.find((entry) => entry.format === "json") ?? entries[0];
+}
+
+export function formatPlanList(entries: PlanLibraryEntry[]): string {
+	const lines = entries.map((entry) => {
+		const date = new Date(entry.modifiedAt).toLocaleString();
+		return `- ${entry.name} (${entry.format}) · ${date}`;
+	});
+	return `Saved plans (${entries.length}):\n${lines.join("\n")}`;
+}
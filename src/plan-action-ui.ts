@@ -1,22 +1,48 @@
 import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
 import { Editor, type EditorTheme, Key, matchesKey, truncateToWidth } from "@mariozechner/pi-tui";
+import type { ClarifyingAnswer, ClarifyingQuestion } from "./questions";
+import { cloneTodoItems, renumberSteps, type TodoItem, updateStepText } from "./utils";
 
-export type PlanNextAction = "approve" | "continue" | "regenerate" | "exit";
+export type PlanNextAction =
+	"answer" | "approve" | "approve-stepwise" | "continue" | "regenerate" | "exit";
 
 export interface PlanNextActionResult {
 	cancelled: boolean;
 	action?: PlanNextAction;
 	continueNote?: string;
+	/** Curated steps to execute, set only when an approve action follows edits to the step list. */
+	steps?: TodoItem[];
 }
 
 const ACTION_OPTIONS: ReadonlyArray<{ label: string; value: PlanNextAction }> = [
 	{ label: "Approve and execute now", value: "approve" },
+	{ label: "Approve and execute step by step", value: "approve-stepwise" },
 	{ label: "Continue from proposed plan", value: "continue" },
 	{ label: "Regenerate plan", value: "regenerate" },
 	{ label: "Exit plan mode", value: "exit" },
 ];
 
-const CONTINUE_OPTION_INDEX = ACTION_OPTIONS.findIndex((option) => option.value === "continue");
+const STEP_LIST_HEIGHT = 8;
+
+interface StepRow {
+	item: TodoItem;
+	depth: number;
+	siblings: TodoItem[];
+	parent?: StepRow;
+}
+
+function listStepRows(items: TodoItem[], parent?: StepRow): StepRow[] {
+	return items.flatMap((item) => {
+		const row: StepRow = { item, depth: parent ? parent.depth + 1 : 0, siblings: items, parent };
+		return [row, ...listStepRows(item.children, row)];
+	});
+}
+
+function pruneSteps(items: TodoItem[], excluded: Set<TodoItem>): TodoItem[] {
+	return items
+		.filter((item) => !excluded.has(item))
+		.map((item) => ({ ...item, children: pruneSteps(item.children, excluded) }));
+}
 
 function normalizeContinueNote(input: string): string {
 	return input.replace(/\s+/g, " ").trim();
@@ -47,10 +73,28 @@ function buildContinueOptionLabel(
 
 export async function selectPlanNextActionWithInlineNote(
 	ui: ExtensionUIContext,
+	summaryLines: string[] = [],
+	steps: TodoItem[] = [],
+	questionCount = 0,
 ): Promise<PlanNextActionResult> {
+	const actionOptions =
+		questionCount > 0
+			? [
+					{ label: `Answer clarifying questions (${questionCount})`, value: "answer" as const },
+					...ACTION_OPTIONS,
+				]
+			: ACTION_OPTIONS;
+	const continueOptionIndex = actionOptions.findIndex((option) => option.value === "continue");
+
 	return ui.custom<PlanNextActionResult>((tui, theme, _keybindings, done) => {
-		let cursorIndex = 0;
+		const draftSteps = cloneTodoItems(steps);
+		const excludedSteps = new Set<TodoItem>();
+		let stepsChanged = false;
+		let stepRows = listStepRows(draftSteps);
+		let stepScroll = 0;
+		let cursorIndex = stepRows.length;
 		let isContinueNoteEditorOpen = false;
+		let editingStep: TodoItem | undefined;
 		let continueNote = "";
 		let cachedRenderedLines: string[] | undefined;
 
@@ -65,6 +109,7 @@ export async function selectPlanNextActionWithInlineNote(
 			},
 		};
 		const noteEditor = new Editor(tui, editorTheme);
+		const stepEditor = new Editor(tui, editorTheme);
 
 		const requestUiRerender = () => {
 			cachedRenderedLines = undefined;
@@ -73,8 +118,22 @@ export async function selectPlanNextActionWithInlineNote(
 
 		const getNormalizedContinueNote = (): string => normalizeContinueNote(continueNote);
 
+		const getActionIndex = (): number => cursorIndex - stepRows.length;
+
+		const isStepExcluded = (row: StepRow): boolean =>
+			excludedSteps.has(row.item) || (row.parent !== undefined && isStepExcluded(row.parent));
+
+		const moveCursor = (index: number) => {
+			cursorIndex = Math.max(0, Math.min(stepRows.length + actionOptions.length - 1, index));
+			if (cursorIndex < stepRows.length) {
+				stepScroll = Math.min(stepScroll, cursorIndex);
+				stepScroll = Math.max(stepScroll, cursorIndex - STEP_LIST_HEIGHT + 1);
+			}
+			requestUiRerender();
+		};
+
 		const openContinueEditor = () => {
-			if (cursorIndex !== CONTINUE_OPTION_INDEX) {
+			if (getActionIndex() !== continueOptionIndex) {
 				return;
 			}
 			isContinueNoteEditorOpen = true;
@@ -82,6 +141,22 @@ export async function selectPlanNextActionWithInlineNote(
 			requestUiRerender();
 		};
 
+		const moveStep = (offset: number) => {
+			const row = stepRows[cursorIndex];
+			const { siblings } = row;
+			const index = siblings.indexOf(row.item);
+			const target = index + offset;
+			if (target < 0 || target >= siblings.length) {
+				return;
+			}
+			siblings.splice(index, 1);
+			siblings.splice(target, 0, row.item);
+			renumberSteps(draftSteps);
+			stepsChanged = true;
+			stepRows = listStepRows(draftSteps);
+			moveCursor(stepRows.findIndex((candidate) => candidate.item === row.item));
+		};
+
 		noteEditor.onChange = (value) => {
 			continueNote = value;
 			requestUiRerender();
@@ -103,6 +178,26 @@ export async function selectPlanNextActionWithInlineNote(
 			});
 		};
 
+		stepEditor.onSubmit = (value) => {
+			const text = value.trim();
+			if (editingStep && text.length > 0 && text !== editingStep.fullText) {
+				updateStepText(editingStep, text);
+				stepsChanged = true;
+			}
+			editingStep = undefined;
+			requestUiRerender();
+		};
+
+		const finish = (action: PlanNextAction) => {
+			const approving = action === "approve" || action === "approve-stepwise";
+			const curated = stepsChanged || excludedSteps.size > 0;
+			done({
+				cancelled: false,
+				action,
+				steps: approving && curated ? pruneSteps(draftSteps, excludedSteps) : undefined,
+			});
+		};
+
 		const render = (width: number): string[] => {
 			if (cachedRenderedLines) {
 				return cachedRenderedLines;
@@ -113,13 +208,47 @@ export async function selectPlanNextActionWithInlineNote(
 
 			addLine(theme.fg("accent", "─".repeat(width)));
 			addLine(theme.fg("text", " Plan mode: next action"));
+			for (const line of summaryLines) {
+				addLine(theme.fg("warning", ` ${line}`));
+			}
 			renderedLines.push("");
 
+			if (stepRows.length > 0) {
+				const included = stepRows.filter((row) => !isStepExcluded(row)).length;
+				addLine(theme.fg("muted", ` Steps (${included}/${stepRows.length} included)`));
+				if (stepScroll > 0) {
+					addLine(theme.fg("dim", `   ↑ ${stepScroll} more`));
+				}
+				const visibleRows = stepRows.slice(stepScroll, stepScroll + STEP_LIST_HEIGHT);
+				visibleRows.forEach((row, visibleIndex) => {
+					const rowIndex = stepScroll + visibleIndex;
+					const isCursorRow = rowIndex === cursorIndex;
+					const excluded = isStepExcluded(row);
+					const cursorPrefix = isCursorRow ? theme.fg("accent", "→ ") : "  ";
+					const checkbox = excluded ? "[ ]" : "[x]";
+					const indent = "  ".repeat(row.depth);
+					const label = `${checkbox} ${indent}${row.item.id}. ${row.item.text}`;
+					const color = isCursorRow ? "accent" : excluded ? "dim" : "text";
+					addLine(`${cursorPrefix}${theme.fg(color, label)}`);
+					if (isCursorRow && editingStep === row.item) {
+						for (const line of stepEditor.render(Math.max(20, width - 4))) {
+							addLine(`    ${line}`);
+						}
+					}
+				});
+				const hiddenBelow = stepRows.length - stepScroll - visibleRows.length;
+				if (hiddenBelow > 0) {
+					addLine(theme.fg("dim", `   ↓ ${hiddenBelow} more`));
+				}
+				renderedLines.push("");
+			}
+
+			const actionIndex = getActionIndex();
 			const maxInlineLabelLength = Math.max(20, width - 8);
-			for (let optionIndex = 0; optionIndex < ACTION_OPTIONS.length; optionIndex++) {
-				const option = ACTION_OPTIONS[optionIndex];
-				const isCursorOption = optionIndex === cursorIndex;
-				const isContinueOption = optionIndex === CONTINUE_OPTION_INDEX;
+			for (let optionIndex = 0; optionIndex < actionOptions.length; optionIndex++) {
+				const option = actionOptions[optionIndex];
+				const isCursorOption = optionIndex === actionIndex;
+				const isContinueOption = optionIndex === continueOptionIndex;
 				const optionLabel = isContinueOption
 					? buildContinueOptionLabel(
 							option.label,
@@ -135,9 +264,18 @@ export async function selectPlanNextActionWithInlineNote(
 			}
 
 			renderedLines.push("");
-			if (isContinueNoteEditorOpen) {
+			if (editingStep) {
+				addLine(theme.fg("dim", " Editing step text • Enter save • Esc discard"));
+			} else if (isContinueNoteEditorOpen) {
 				addLine(theme.fg("dim", " Typing note inline • Enter continue • Tab/Esc stop editing"));
-			} else if (cursorIndex === CONTINUE_OPTION_INDEX) {
+			} else if (actionIndex < 0) {
+				addLine(
+					theme.fg(
+						"dim",
+						" ↑↓ move • Space include/exclude • Enter edit • Shift+↑↓ reorder • Esc cancel",
+					),
+				);
+			} else if (actionIndex === continueOptionIndex) {
 				if (getNormalizedContinueNote().length > 0) {
 					addLine(theme.fg("dim", " ↑↓ move • Enter continue • Tab edit note • Esc cancel"));
 				} else {
@@ -153,6 +291,17 @@ export async function selectPlanNextActionWithInlineNote(
 		};
 
 		const handleInput = (data: string) => {
+			if (editingStep) {
+				if (matchesKey(data, Key.escape)) {
+					editingStep = undefined;
+					requestUiRerender();
+					return;
+				}
+				stepEditor.handleInput(data);
+				requestUiRerender();
+				return;
+			}
+
 			if (isContinueNoteEditorOpen) {
 				if (matchesKey(data, Key.tab) || matchesKey(data, Key.escape)) {
 					isContinueNoteEditorOpen = false;
@@ -164,27 +313,54 @@ export async function selectPlanNextActionWithInlineNote(
 				return;
 			}
 
+			const stepRow = stepRows[cursorIndex];
+
+			if (stepRow && matchesKey(data, Key.shift("up"))) {
+				moveStep(-1);
+				return;
+			}
+
+			if (stepRow && matchesKey(data, Key.shift("down"))) {
+				moveStep(1);
+				return;
+			}
+
 			if (matchesKey(data, Key.up)) {
-				cursorIndex = Math.max(0, cursorIndex - 1);
-				requestUiRerender();
+				moveCursor(cursorIndex - 1);
 				return;
 			}
 
 			if (matchesKey(data, Key.down)) {
-				cursorIndex = Math.min(ACTION_OPTIONS.length - 1, cursorIndex + 1);
+				moveCursor(cursorIndex + 1);
+				return;
+			}
+
+			if (stepRow && matchesKey(data, Key.space)) {
+				if (excludedSteps.has(stepRow.item)) {
+					excludedSteps.delete(stepRow.item);
+				} else {
+					excludedSteps.add(stepRow.item);
+				}
+				requestUiRerender();
+				return;
+			}
+
+			if (stepRow && matchesKey(data, Key.enter)) {
+				editingStep = stepRow.item;
+				stepEditor.setText(stepRow.item.fullText);
 				requestUiRerender();
 				return;
 			}
 
 			if (matchesKey(data, Key.tab)) {
-				if (cursorIndex === CONTINUE_OPTION_INDEX) {
+				if (getActionIndex() === continueOptionIndex) {
 					openContinueEditor();
 				}
 				return;
 			}
 
 			if (matchesKey(data, Key.enter)) {
-				const selected = ACTION_OPTIONS[cursorIndex];
+				const selected = actionOptions[getActionIndex()];
 				if (selected.value === "continue") {
 					const normalized = getNormalizedContinueNote();
 					done({
@@ -195,7 +371,301 @@ export async function selectPlanNextActionWithInlineNote(
 					return;
 				}
 
-				done({ cancelled: false, action: selected.value });
+				finish(selected.value);
+				return;
+			}
+
+			if (matchesKey(data, Key.escape)) {
+				done({ cancelled: true });
+			}
+		};
+
+		return {
+			render,
+			invalidate: () => {
+				cachedRenderedLines = undefined;
+			},
+			handleInput,
+		};
+	});
+}
+
+export type StepReviewAction = "next" | "revise" | "rerun" | "stop";
+
+export interface StepReviewResult {
+	cancelled: boolean;
+	action?: StepReviewAction;
+}
+
+const STEP_REVIEW_OPTIONS: ReadonlyArray<{ label: string; value: StepReviewAction }> = [
+	{ label: "Continue to next step", value: "next" },
+	{ label: "Revise remaining plan", value: "revise" },
+	{ label: "Re-run this step", value: "rerun" },
+	{ label: "Stop", value: "stop" },
+];
+
+export async function selectStepReviewAction(
+	ui: ExtensionUIContext,
+	title: string,
+	summaryLines: string[],
+): Promise<StepReviewResult> {
+	return ui.custom<StepReviewResult>((tui, theme, _keybindings, done) => {
+		let cursorIndex = 0;
+		let cachedRenderedLines: string[] | undefined;
+
+		const requestUiRerender = () => {
+			cachedRenderedLines = undefined;
+			tui.requestRender();
+		};
+
+		const render = (width: number): string[] => {
+			if (cachedRenderedLines) {
+				return cachedRenderedLines;
+			}
+
+			const renderedLines: string[] = [];
+			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
+
+			addLine(theme.fg("accent", "─".repeat(width)));
+			addLine(theme.fg("text", ` ${title}`));
+			for (const line of summaryLines) {
+				addLine(theme.fg("muted", `   ${line}`));
+			}
+			renderedLines.push("");
+
+			STEP_REVIEW_OPTIONS.forEach((option, optionIndex) => {
+				const isCursorOption = optionIndex === cursorIndex;
+				const cursorPrefix = isCursorOption ? theme.fg("accent", "→ ") : "  ";
+				const bullet = isCursorOption ? "●" : "○";
+				const optionColor = isCursorOption ? "accent" : "text";
+				addLine(`${cursorPrefix}${theme.fg(optionColor, `${bullet} ${option.label}`)}`);
+			});
+
+			renderedLines.push("");
+			addLine(theme.fg("dim", " ↑↓ move • Enter select • Esc cancel"));
+			addLine(theme.fg("accent", "─".repeat(width)));
+			cachedRenderedLines = renderedLines;
+			return renderedLines;
+		};
+
+		const handleInput = (data: string) => {
+			if (matchesKey(data, Key.up)) {
+				cursorIndex = Math.max(0, cursorIndex - 1);
+				requestUiRerender();
+				return;
+			}
+
+			if (matchesKey(data, Key.down)) {
+				cursorIndex = Math.min(STEP_REVIEW_OPTIONS.length - 1, cursorIndex + 1);
+				requestUiRerender();
+				return;
+			}
+
+			if (matchesKey(data, Key.enter)) {
+				done({ cancelled: false, action: STEP_REVIEW_OPTIONS[cursorIndex].value });
+				return;
+			}
+
+			if (matchesKey(data, Key.escape)) {
+				done({ cancelled: true });
+			}
+		};
+
+		return {
+			render,
+			invalidate: () => {
+				cachedRenderedLines = undefined;
+			},
+			handleInput,
+		};
+	});
+}
+
+export interface ClarifyingAnswersResult {
+	cancelled: boolean;
+	answers?: ClarifyingAnswer[];
+}
+
+const CUSTOM_ANSWER_LABEL = "Other (type an answer)";
+const NO_ANSWER = "No preference; decide and state the assumption.";
+
+export async function selectClarifyingAnswers(
+	ui: ExtensionUIContext,
+	questions: ClarifyingQuestion[],
+): Promise<ClarifyingAnswersResult> {
+	return ui.custom<ClarifyingAnswersResult>((tui, theme, _keybindings, done) => {
+		// One choice index per question; the last choice is the typed answer.
+		const choiceIndexes = questions.map(() => 0);
+		const typedAnswers = questions.map(() => "");
+		let cursorIndex = 0;
+		let isAnswerEditorOpen = false;
+		let cachedRenderedLines: string[] | undefined;
+
+		const editorTheme: EditorTheme = {
+			borderColor: (text) => theme.fg("accent", text),
+			selectList: {
+				selectedPrefix: (text) => theme.fg("accent", text),
+				selectedText: (text) => theme.fg("accent", text),
+				description: (text) => theme.fg("muted", text),
+				scrollInfo: (text) => theme.fg("dim", text),
+				noMatch: (text) => theme.fg("warning", text),
+			},
+		};
+		const answerEditor = new Editor(tui, editorTheme);
+
+		const requestUiRerender = () => {
+			cachedRenderedLines = undefined;
+			tui.requestRender();
+		};
+
+		const submitIndex = questions.length;
+
+		const isCustomChoice = (questionIndex: number): boolean =>
+			choiceIndexes[questionIndex] === questions[questionIndex].options.length;
+
+		const getAnswer = (questionIndex: number): string => {
+			if (!isCustomChoice(questionIndex)) {
+				return questions[questionIndex].options[choiceIndexes[questionIndex]];
+			}
+			const typed = normalizeContinueNote(typedAnswers[questionIndex]);
+			return typed.length > 0 ? typed : NO_ANSWER;
+		};
+
+		const openAnswerEditor = () => {
+			choiceIndexes[cursorIndex] = questions[cursorIndex].options.length;
+			isAnswerEditorOpen = true;
+			answerEditor.setText(typedAnswers[cursorIndex]);
+			requestUiRerender();
+		};
+
+		answerEditor.onChange = (value) => {
+			typedAnswers[cursorIndex] = value;
+			requestUiRerender();
+		};
+
+		answerEditor.onSubmit = (value) => {
+			typedAnswers[cursorIndex] = value;
+			isAnswerEditorOpen = false;
+			cursorIndex = Math.min(submitIndex, cursorIndex + 1);
+			requestUiRerender();
+		};
+
+		const render = (width: number): string[] => {
+			if (cachedRenderedLines) {
+				return cachedRenderedLines;
+			}
+
+			const renderedLines: string[] = [];
+			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
+
+			addLine(theme.fg("accent", "─".repeat(width)));
+			addLine(theme.fg("text", ` Plan mode: clarifying questions (${questions.length})`));
+			renderedLines.push("");
+
+			questions.forEach((question, questionIndex) => {
+				const isCursorQuestion = questionIndex === cursorIndex;
+				const cursorPrefix = isCursorQuestion ? theme.fg("accent", "→ ") : "  ";
+				const questionColor = isCursorQuestion ? "accent" : "text";
+				addLine(
+					`${cursorPrefix}${theme.fg(questionColor, `${questionIndex + 1}. ${question.text}`)}`,
+				);
+
+				const choices = [...question.options, CUSTOM_ANSWER_LABEL];
+				choices.forEach((choice, choiceIndex) => {
+					const isSelected = choiceIndexes[questionIndex] === choiceIndex;
+					const isCustom = choiceIndex === question.options.length;
+					const typed = typedAnswers[questionIndex];
+					const editing = isAnswerEditorOpen && isCursorQuestion && isCustom;
+					const label =
+						isCustom && (typed.length > 0 || editing)
+							? `${normalizeContinueNote(typed)}${editing ? "▍" : ""}`
+							: choice;
+					const bullet = isSelected ? "●" : "○";
+					const color = isSelected && isCursorQuestion ? "accent" : isSelected ? "text" : "muted";
+					addLine(`     ${theme.fg(color, `${bullet} ${label}`)}`);
+				});
+			});
+
+			renderedLines.push("");
+			const isCursorSubmit = cursorIndex === submitIndex;
+			addLine(
+				`${isCursorSubmit ? theme.fg("accent", "→ ") : "  "}${theme.fg(isCursorSubmit ? "accent" : "text", "Send answers and continue planning")}`,
+			);
+
+			renderedLines.push("");
+			if (isAnswerEditorOpen) {
+				addLine(theme.fg("dim", " Typing answer • Enter save • Tab/Esc stop editing"));
+			} else if (isCursorSubmit) {
+				addLine(theme.fg("dim", " ↑↓ move • Enter send • Esc cancel"));
+			} else {
+				addLine(
+					theme.fg("dim", " ↑↓ question • ←→ choose • Tab type answer • Enter next • Esc cancel"),
+				);
+			}
+
+			addLine(theme.fg("accent", "─".repeat(width)));
+			cachedRenderedLines = renderedLines;
+			return renderedLines;
+		};
+
+		const handleInput = (data: string) => {
+			if (isAnswerEditorOpen) {
+				if (matchesKey(data, Key.tab) || matchesKey(data, Key.escape)) {
+					isAnswerEditorOpen = false;
+					requestUiRerender();
+					return;
+				}
+				answerEditor.handleInput(data);
+				requestUiRerender();
+				return;
+			}
+
+			if (matchesKey(data, Key.up)) {
+				cursorIndex = Math.max(0, cursorIndex - 1);
+				requestUiRerender();
+				return;
+			}
+
+			if (matchesKey(data, Key.down)) {
+				cursorIndex = Math.min(submitIndex, cursorIndex + 1);
+				requestUiRerender();
+				return;
+			}
+
+			if (
+				cursorIndex < submitIndex &&
+				(matchesKey(data, Key.left) || matchesKey(data, Key.right))
+			) {
+				const choiceCount = questions[cursorIndex].options.length + 1;
+				const offset = matchesKey(data, Key.left) ? -1 : 1;
+				choiceIndexes[cursorIndex] =
+					(choiceIndexes[cursorIndex] + offset + choiceCount) % choiceCount;
+				requestUiRerender();
+				return;
+			}
+
+			if (cursorIndex < submitIndex && matchesKey(data, Key.tab)) {
+				openAnswerEditor();
+				return;
+			}
+
+			if (matchesKey(data, Key.enter)) {
+				if (cursorIndex < submitIndex) {
+					if (isCustomChoice(cursorIndex) && typedAnswers[cursorIndex].trim().length === 0) {
+						openAnswerEditor();
+						return;
+					}
+					cursorIndex++;
+					requestUiRerender();
+					return;
+				}
+				done({
+					cancelled: false,
+					answers: questions.map((question, questionIndex) => ({
+						question: question.text,
+						answer: getAnswer(questionIndex),
+					})),
+				});
 				return;
 			}
 
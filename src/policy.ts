@@ -0,0 +1,342 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { FILE_SCOPE_MODES, type FileScopeMode } from "./scope";
+import type { BashPolicy } from "./shell-analyzer";
+import { DEFAULT_STALL_LIMITS, formatStallLimits, type StallLimits } from "./stall";
+import { DEFAULT_PLAN_SUGGESTION_RULES, type PlanSuggestionRules } from "./suggest";
+import { escapeRegExp } from "./utils";
+import { VERIFICATION_MODES, type VerificationMode } from "./verification";
+
+export interface PlanPolicyFile {
+	bash?: {
+		allow?: string[];
+		deny?: string[];
+	};
+	tools?: {
+		readOnly?: string[];
+		writeLike?: string[];
+	};
+	prompts?: {
+		plan?: string;
+		yolo?: string;
+	};
+	execution?: {
+		fileScope?: FileScopeMode;
+		verify?: VerificationMode;
+		checkpoints?: boolean;
+	};
+	audit?: {
+		jsonl?: boolean;
+	};
+	contract?: {
+		autoReprompt?: boolean;
+	};
+	stall?: {
+		turns?: number;
+		toolCalls?: number;
+		minutes?: number;
+		prompt?: boolean;
+	};
+	suggest?: {
+		enabled?: boolean;
+		keywords?: string[];
+		minLength?: number;
+		minDirectories?: number;
+	};
+}
+
+export interface PlanPolicy {
+	sources: string[];
+	allowedBashPatterns: string[];
+	deniedBashPatterns: string[];
+	readOnlyTools: string[];
+	writeLikeTools: string[];
+	planModePrompt?: string;
+	yoloModePrompt?: string;
+	fileScope?: FileScopeMode;
+	verify?: VerificationMode;
+	checkpoints: boolean;
+	auditJsonl: boolean;
+	contractAutoReprompt: boolean;
+	stallLimits: StallLimits;
+	stallPrompt: boolean;
+	suggestPlanMode: boolean;
+	/** Keywords from policy files; the built-in list applies when none are configured. */
+	suggestKeywords: string[];
+	suggestMinLength: number;
+	suggestMinDirectories: number;
+}
+
+export interface LoadedPlanPolicy {
+	policy: PlanPolicy;
+	errors: string[];
+}
+
+type PolicyFieldType = "string" | "string[]" | "boolean" | "number" | readonly string[];
+
+const POLICY_SCHEMA: Record<string, Record<string, PolicyFieldType>> = {
+	bash: { allow: "string[]", deny: "string[]" },
+	tools: { readOnly: "string[]", writeLike: "string[]" },
+	prompts: { plan: "string", yolo: "string" },
+	execution: { fileScope: FILE_SCOPE_MODES, verify: VERIFICATION_MODES, checkpoints: "boolean" },
+	audit: { jsonl: "boolean" },
+	contract: { autoReprompt: "boolean" },
+	stall: { turns: "number", toolCalls: "number", minutes: "number", prompt: "boolean" },
+	suggest: {
+		enabled: "boolean",
+		keywords: "string[]",
+		minLength: "number",
+		minDirectories: "number",
+	},
+};
+
+export function getPolicyPaths(cwd: string): { global: string; project: string } {
+	return {
+		global: join(homedir(), ".pi", "agent", "pi-plan.json"),
+		project: join(cwd, ".pi", "pi-plan.json"),
+	};
+}
+
+export function createEmptyPolicy(): PlanPolicy {
+	return {
+		sources: [],
+		allowedBashPatterns: [],
+		deniedBashPatterns: [],
+		readOnlyTools: [],
+		writeLikeTools: [],
+		checkpoints: true,
+		auditJsonl: false,
+		contractAutoReprompt: false,
+		stallLimits: { ...DEFAULT_STALL_LIMITS },
+		stallPrompt: true,
+		suggestPlanMode: false,
+		suggestKeywords: [],
+		suggestMinLength: DEFAULT_PLAN_SUGGESTION_RULES.minLength,
+		suggestMinDirectories: DEFAULT_PLAN_SUGGESTION_RULES.minDirectories,
+	};
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function validatePolicyFile(raw: unknown): string[] {
+	if (!isPlainObject(raw)) {
+		return ["expected a JSON object at the top level"];
+	}
+
+	const errors: string[] = [];
+	for (const [section, value] of Object.entries(raw)) {
+		if (section === "$schema") continue;
+		if (!Object.hasOwn(POLICY_SCHEMA, section)) {
+			errors.push(`unknown key "${section}" (expected: ${Object.keys(POLICY_SCHEMA).join(", ")})`);
+			continue;
+		}
+		const fields = POLICY_SCHEMA[section];
+		if (!isPlainObject(value)) {
+			errors.push(`"${section}" must be an object`);
+			continue;
+		}
+
+		for (const [field, fieldValue] of Object.entries(value)) {
+			const path = `${section}.${field}`;
+			if (!Object.hasOwn(fields, field)) {
+				errors.push(`unknown key "${path}" (expected: ${Object.keys(fields).join(", ")})`);
+				continue;
+			}
+			const fieldType = fields[field];
+			if (Array.isArray(fieldType)) {
+				if (typeof fieldValue !== "string" || !fieldType.includes(fieldValue)) {
+					errors.push(`"${path}" must be one of: ${fieldType.join(", ")}`);
+				}
+				continue;
+			}
+			if (fieldType === "boolean") {
+				if (typeof fieldValue !== "boolean") {
+					errors.push(`"${path}" must be true or false`);
+				}
+				continue;
+			}
+			if (fieldType === "number") {
+				if (typeof fieldValue !== "number" || !Number.isFinite(fieldValue) || fieldValue < 0) {
+					errors.push(`"${path}" must be a non-negative number (0 disables it)`);
+				}
+				continue;
+			}
+			if (fieldType === "string") {
+				if (typeof fieldValue !== "string" || fieldValue.trim().length === 0) {
+					errors.push(`"${path}" must be a non-empty string`);
+				}
+				continue;
+			}
+			if (!Array.isArray(fieldValue)) {
+				errors.push(`"${path}" must be an array of strings`);
+				continue;
+			}
+			fieldValue.forEach((entry, index) => {
+				if (typeof entry !== "string" || entry.trim().length === 0) {
+					errors.push(`"${path}[${index}]" must be a non-empty string`);
+					return;
+				}
+				if (section === "bash") {
+					try {
+						new RegExp(entry);
+					} catch (error) {
+						errors.push(
+							`"${path}[${index}]" is not a valid regular expression: ${(error as Error).message}`,
+						);
+					}
+				}
+			});
+		}
+	}
+	return errors;
+}
+
+function readPolicyFile(path: string): { file?: PlanPolicyFile; errors: string[] } {
+	if (!existsSync(path)) {
+		return { errors: [] };
+	}
+
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(path, "utf8"));
+	} catch (error) {
+		return { errors: [`${path}: invalid JSON (${(error as Error).message})`] };
+	}
+
+	const errors = validatePolicyFile(raw);
+	if (errors.length > 0) {
+		return { errors: errors.map((error) => `${path}: ${error}`) };
+	}
+	return { file: raw as PlanPolicyFile, errors: [] };
+}
+
+function mergePolicyFile(policy: PlanPolicy, file: PlanPolicyFile, source: string): void {
+	policy.sources.push(source);
+	policy.allowedBashPatterns.push(...(file.bash?.allow ?? []));
+	policy.deniedBashPatterns.push(...(file.bash?.deny ?? []));
+	policy.readOnlyTools.push(...(file.tools?.readOnly ?? []));
+	policy.writeLikeTools.push(...(file.tools?.writeLike ?? []));
+	policy.planModePrompt = file.prompts?.plan ?? policy.planModePrompt;
+	policy.yoloModePrompt = file.prompts?.yolo ?? policy.yoloModePrompt;
+	policy.fileScope = file.execution?.fileScope ?? policy.fileScope;
+	policy.verify = file.execution?.verify ?? policy.verify;
+	policy.checkpoints = file.execution?.checkpoints ?? policy.checkpoints;
+	policy.auditJsonl = file.audit?.jsonl ?? policy.auditJsonl;
+	policy.contractAutoReprompt = file.contract?.autoReprompt ?? policy.contractAutoReprompt;
+	policy.stallLimits = {
+		turns: file.stall?.turns ?? policy.stallLimits.turns,
+		toolCalls: file.stall?.toolCalls ?? policy.stallLimits.toolCalls,
+		minutes: file.stall?.minutes ?? policy.stallLimits.minutes,
+	};
+	policy.stallPrompt = file.stall?.prompt ?? policy.stallPrompt;
+	policy.suggestPlanMode = file.suggest?.enabled ?? policy.suggestPlanMode;
+	policy.suggestKeywords.push(...(file.suggest?.keywords ?? []));
+	policy.suggestMinLength = file.suggest?.minLength ?? policy.suggestMinLength;
+	policy.suggestMinDirectories = file.suggest?.minDirectories ?? policy.suggestMinDirectories;
+}
+
+export function loadPlanPolicy(cwd: string): LoadedPlanPolicy {
+	const policy = createEmptyPolicy();
+	const errors: string[] = [];
+	const paths = getPolicyPaths(cwd);
+
+	for (const path of [paths.global, paths.project]) {
+		const result = readPolicyFile(path);
+		errors.push(...result.errors);
+		if (result.file) {
+			mergePolicyFile(policy, result.file, path);
+		}
+	}
+
+	policy.allowedBashPatterns = [...new Set(policy.allowedBashPatterns)];
+	policy.deniedBashPatterns = [...new Set(policy.deniedBashPatterns)];
+	policy.readOnlyTools = [...new Set(policy.readOnlyTools)];
+	policy.writeLikeTools = [...new Set(policy.writeLikeTools)];
+	policy.suggestKeywords = [...new Set(policy.suggestKeywords)];
+	return { policy, errors };
+}
+
+export function createBashAllowPattern(command: string): string {
+	const escaped = command.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+	return `^${escaped}(?:\\s|$)`;
+}
+
+export function addProjectBashAllowPattern(cwd: string, pattern: string): string | undefined {
+	const path = getPolicyPaths(cwd).project;
+	let raw: unknown = {};
+	if (existsSync(path)) {
+		try {
+			raw = JSON.parse(readFileSync(path, "utf8"));
+		} catch (error) {
+			return `${path}: invalid JSON (${(error as Error).message})`;
+		}
+		const errors = validatePolicyFile(raw);
+		if (errors.length > 0) {
+			return `${path}: ${errors[0]}`;
+		}
+	}
+
+	const file = raw as PlanPolicyFile;
+	const allow = file.bash?.allow ?? [];
+	if (!allow.includes(pattern)) {
+		file.bash = { ...file.bash, allow: [...allow, pattern] };
+	}
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(path, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+	} catch (error) {
+		return `${path}: ${(error as Error).message}`;
+	}
+	return undefined;
+}
+
+export function toBashPolicy(policy: PlanPolicy): BashPolicy {
+	return {
+		allow: policy.allowedBashPatterns.map((pattern) => new RegExp(pattern)),
+		deny: policy.deniedBashPatterns.map((pattern) => new RegExp(pattern)),
+	};
+}
+
+export function getPlanSuggestionRules(policy: PlanPolicy): PlanSuggestionRules {
+	return {
+		keywords:
+			policy.suggestKeywords.length > 0
+				? policy.suggestKeywords
+				: DEFAULT_PLAN_SUGGESTION_RULES.keywords,
+		minLength: policy.suggestMinLength,
+		minDirectories: policy.suggestMinDirectories,
+	};
+}
+
+export function formatPlanPolicy(
+	policy: PlanPolicy,
+	effective: {
+		readOnlyTools: string[];
+		writeLikeTools: string[];
+		fileScope: FileScopeMode;
+		verify: VerificationMode;
+	},
+): string {
+	const list = (values: string[]) => (values.length > 0 ? values.join(", ") : "(none)");
+	return [
+		`Plan policy sources: ${policy.sources.length > 0 ? policy.sources.join(", ") : "(none, built-in defaults)"}`,
+		`Read-only tools: ${list(effective.readOnlyTools)}`,
+		`Write-like tools: ${list(effective.writeLikeTools)}`,
+		`Allowed bash patterns: ${list(policy.allowedBashPatterns)}`,
+		`Denied bash patterns: ${list(policy.deniedBashPatterns)}`,
+		`Plan mode prompt: ${policy.planModePrompt ? "overridden" : "built-in"}`,
+		`YOLO mode prompt: ${policy.yoloModePrompt ? "overridden" : "built-in"}`,
+		`Execution file scope: ${effective.fileScope}`,
+		`Verification after execution: ${effective.verify}`,
+		`Git checkpoints during execution: ${policy.checkpoints ? "on" : "off"}`,
+		`Blocked-action JSONL log: ${policy.auditJsonl ? "on" : "off"}`,
+		`Re-prompt on incomplete plan output: ${policy.contractAutoReprompt ? "on" : "off"}`,
+		`Stalled-step limits: ${formatStallLimits(policy.stallLimits)}${policy.stallPrompt ? "" : " (warn only)"}`,
+		`Suggest plan mode for risky requests: ${policy.suggestPlanMode ? "on" : "off"}`,
+		`Suggestion keywords: ${policy.suggestKeywords.length > 0 ? list(policy.suggestKeywords) : "(built-in)"}`,
+		`Suggestion thresholds: ${policy.suggestMinLength > 0 ? `${policy.suggestMinLength} characters` : "length off"}, ${policy.suggestMinDirectories > 0 ? `${policy.suggestMinDirectories} directories` : "directories off"}`,
+	].join("\n");
+}
@@ -0,0 +1,113 @@
+export interface ClarifyingQuestion {
+	text: string;
+	/** Suggested answers offered by the agent, if any. */
+	options: string[];
+}
+
+export interface ClarifyingAnswer {
+	question: string;
+	answer: string;
+}
+
+const QUESTION_SECTION_PATTERN =
+	/^\s*(?:#{1,6}\s*|\d+\)\s*)?\**\s*(?:uncertaint(?:y|ies)|assumptions?|open questions?|clarifying questions?|questions?)\b/i;
+const SECTION_BOUNDARY_PATTERN =
+	/^\s*(?:#{1,6}\s+\S|\d+\)\s+\S|\**[A-Z][^:*]{0,40}:\**\s*$|\*\*[^*]+\*\*\s*:?\s*$)/;
+const LIST_ITEM_PATTERN = /^(\s*)(?:[-*+•]|\d+[.)]|[a-z][.)]|\([a-z0-9]\))\s+(.*)$/i;
+const LETTERED_OPTIONS_PATTERN = /^\(?[a-z]\)\s*/i;
+const OPTIONS_LABEL_PATTERN = /^\**\s*(?:options?|choices?|suggested(?: answers?)?)\s*\**\s*:\s*/i;
+
+function cleanText(text: string): string {
+	return text
+		.replace(/\*{1,2}([^*]+)\*{1,2}/g, "$1")
+		.replace(/`([^`]+)`/g, "$1")
+		.replace(/\*+/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function splitOptions(text: string): string[] {
+	if (LETTERED_OPTIONS_PATTERN.test(text.trim())) {
+		return text
+			.trim()
+			.split(/\s*\(?\b[a-z]\)\s*/i)
+			.map((option) => cleanText(option).replace(/[,;.]$/, ""))
+			.filter((option) => option.length > 0);
+	}
+	return cleanText(text.replace(OPTIONS_LABEL_PATTERN, ""))
+		.split(/\s*(?:\/|\||;|,?\s+or\s+|,)\s*/i)
+		.map((option) =>
+			option
+				.replace(/^\(?[a-z0-9][.)]\s+/i, "")
+				.replace(/[.?]$/, "")
+				.trim(),
+		)
+		.filter((option) => option.length > 0);
+}
+
+function getQuestionSection(message: string): string[] {
+	const lines = message.split("\n");
+	const start = lines.findIndex((line) => QUESTION_SECTION_PATTERN.test(line));
+	if (start === -1) {
+		return [];
+	}
+	const end = lines.findIndex(
+		(line, index) => index > start && SECTION_BOUNDARY_PATTERN.test(line),
+	);
+	const heading = lines[start].replace(QUESTION_SECTION_PATTERN, "").replace(/^[^:]*:/, "");
+	return [heading, ...lines.slice(start + 1, end === -1 ? lines.length : end)];
+}
+
+export function extractClarifyingQuestions(message: string): ClarifyingQuestion[] {
+	const questions: ClarifyingQuestion[] = [];
+	let current: { question: ClarifyingQuestion; indent: number } | undefined;
+
+	for (const line of getQuestionSection(message)) {
+		if (line.trim().length === 0) continue;
+		const item = line.match(LIST_ITEM_PATTERN);
+		const indent = item ? item[1].length : line.search(/\S/);
+		const content = item ? item[2] : line.trim();
+
+		if (current && indent > current.indent && !content.includes("?")) {
+			current.question.options.push(...splitOptions(content));
+			continue;
+		}
+		if (current && OPTIONS_LABEL_PATTERN.test(content)) {
+			current.question.options.push(...splitOptions(content));
+			continue;
+		}
+
+		const questionEnd = content.lastIndexOf("?");
+		if (questionEnd === -1) {
+			current = undefined;
+			continue;
+		}
+		const text = cleanText(content.slice(0, questionEnd + 1));
+		const trailing = content.slice(questionEnd + 1).trim();
+		const question: ClarifyingQuestion = {
+			text,
+			options:
+				OPTIONS_LABEL_PATTERN.test(trailing) || LETTERED_OPTIONS_PATTERN.test(trailing)
+					? splitOptions(trailing)
+					: [],
+		};
+		questions.push(question);
+		current = { question, indent };
+	}
+
+	return questions.map((question) => ({
+		...question,
+		options: [...new Set(question.options)],
+	}));
+}
+
+export function buildClarificationMessage(answers: ClarifyingAnswer[]): string {
+	const lines = answers.map(
+		(entry, index) => `${index + 1}. Q: ${entry.question}\n   A: ${entry.answer}`,
+	);
+	return `[CLARIFICATIONS]
+Answers to your clarifying questions:
+${lines.join("\n")}
+
+Continue planning with these answers. Update the uncertainties/assumptions and the plan accordingly, in read-only mode.`;
+}
@@ -0,0 +1,75 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { flattenSteps, formatStepTiming, type TodoItem } from "./utils";
+
+export interface ExecutionSummaryOptions {
+	revision: number | null;
+	risks: string[];
+	verification: string[];
+}
+
+export function getExecutionSummaryPath(cwd: string): string {
+	return join(cwd, ".pi", "pi-plan-summary.md");
+}
+
+function code(values: string[]): string {
+	return values.map((value) => `\`${value.replace(/`/g, "'")}\``).join(", ");
+}
+
+function formatStepLines(items: TodoItem[], indent = ""): string[] {
+	return items.flatMap((item) => {
+		const checkbox = item.completed && !item.skipped ? "[x]" : "[ ]";
+		const status = item.skipped ? " _(skipped)_" : item.blocked ? " _(blocked)_" : "";
+		const nested = `${indent}  `;
+		const timing = formatStepTiming(item);
+		const details = [
+			item.note ? `Note: ${item.note}` : "",
+			timing ? `Time: ${timing}` : "",
+			item.touchedFiles?.length ? `Files: ${code(item.touchedFiles)}` : "",
+			item.commands?.length ? `Commands: ${code(item.commands)}` : "",
+		].filter((line) => line.length > 0);
+		return [
+			`${indent}- ${checkbox} ${item.id}. ${item.text}${status}`,
+			...details.map((line) => `${nested}- ${line}`),
+			...formatStepLines(item.children, nested),
+		];
+	});
+}
+
+export function formatExecutionSummary(
+	items: TodoItem[],
+	options: ExecutionSummaryOptions,
+): string {
+	const leaves = flattenSteps(items).filter((item) => item.children.length === 0);
+	const done = leaves.filter((item) => item.completed && !item.skipped).length;
+	const skipped = leaves.filter((item) => item.skipped).length;
+	const files = [...new Set(flattenSteps(items).flatMap((item) => item.touchedFiles ?? []))];
+	const revision = options.revision === null ? "" : ` (plan r${options.revision})`;
+
+	const sections = [
+		`## Plan execution summary${revision}`,
+		`${done}/${leaves.length} steps done${skipped > 0 ? `, ${skipped} skipped` : ""}.`,
+		["### Steps", ...formatStepLines(items)].join("\n"),
+		files.length > 0
+			? ["### Files changed", ...files.map((file) => `- \`${file}\``)].join("\n")
+			: "",
+		options.verification.length > 0
+			? ["### Verification", ...options.verification.map((line) => `- ${line}`)].join("\n")
+			: "",
+		options.risks.length > 0
+			? ["### Risks and rollback notes", ...options.risks.map((risk) => `- ${risk}`)].join("\n")
+			: "",
+	];
+	return sections.filter((section) => section.length > 0).join("\n\n");
+}
+
+export function writeExecutionSummary(cwd: string, summary: string): string | undefined {
+	const path = getExecutionSummaryPath(cwd);
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(path, `${summary}\n`, "utf8");
+		return undefined;
+	} catch (error) {
+		return `${path}: ${(error as Error).message}`;
+	}
+}
@@ -0,0 +1,76 @@
+import { isAbsolute, relative, resolve } from "node:path";
+
+export type FileScopeMode = "off" | "warn" | "ask" | "block";
+
+export const FILE_SCOPE_MODES: readonly FileScopeMode[] = ["off", "warn", "ask", "block"];
+
+export const DEFAULT_FILE_SCOPE_MODE: FileScopeMode = "warn";
+
+export function normalizeScopePath(path: string, cwd: string): string {
+	const absolute = isAbsolute(path) ? path : resolve(cwd, path);
+	const relativePath = relative(cwd, absolute);
+	return relativePath.startsWith("..") || isAbsolute(relativePath)
+		? absolute
+		: relativePath.split("\\").join("/");
+}
+
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index];
+		if (char === "*" && pattern[index + 1] === "*") {
+			index++;
+			if (pattern[index + 1] === "/") {
+				index++;
+				source += "(?:.*/)?";
+			} else {
+				source += ".*";
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = pattern.indexOf("}", index);
+			if (end === -1) {
+				source += "\\{";
+				continue;
+			}
+			const options = pattern.slice(index + 1, end).split(",");
+			source += `(?:${options.map((option) => option.replace(/[.+^$()|[\]\\]/g, "\\$&")).join("|")})`;
+			index = end;
+		} else {
+			source += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${source}$`);
+}
+
+export function isPathInScope(path: string, scope: string[], cwd: string): boolean {
+	const target = normalizeScopePath(path, cwd);
+	return scope.some((entry) => {
+		const pattern = normalizeScopePath(entry.replace(/\/+$/, ""), cwd);
+		if (pattern === target || target.startsWith(`${pattern}/`)) {
+			return true;
+		}
+		return /[*?{]/.test(pattern) && globToRegExp(pattern).test(target);
+	});
+}
+
+export function getToolTargetPaths(input: unknown): string[] {
+	const candidate = input as Record<string, unknown> | null;
+	if (typeof candidate !== "object" || candidate === null) {
+		return [];
+	}
+
+	const paths: string[] = [];
+	for (const key of ["path", "file_path", "paths"]) {
+		const value = candidate[key];
+		if (typeof value === "string") {
+			paths.push(value);
+		} else if (Array.isArray(value)) {
+			paths.push(...value.filter((entry): entry is string => typeof entry === "string"));
+		}
+	}
+	return [...new Set(paths)];
+}
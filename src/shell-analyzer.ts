@@ -0,0 +1,1329 @@
+export interface BashVerdict {
+	allowed: boolean;
+	segment?: string;
+	reason?: string;
+	/** Command words as matched by policy patterns, e.g. `npx tsc --noEmit`. */
+	commandText?: string;
+	/** Guard rule that produced the verdict, e.g. `read-only command allowlist`. */
+	rule?: string;
+}
+
+export interface BashSegmentExplanation {
+	segment: string;
+	allowed: boolean;
+	rule: string;
+	reason?: string;
+}
+
+export interface BashExplanation {
+	verdict: BashVerdict;
+	segments: BashSegmentExplanation[];
+}
+
+export interface BashPolicy {
+	allow: RegExp[];
+	deny: RegExp[];
+}
+
+const EMPTY_POLICY: BashPolicy = { allow: [], deny: [] };
+
+interface ShellWord {
+	kind: "word";
+	value: string;
+	/** Whether the shell computes part of the word: parameters, substitutions, or brace expansion. */
+	expanded: boolean;
+	/** Unquoted characters of the word, with each quoted or substituted part reduced to `x`. */
+	shape: string;
+	start: number;
+	end: number;
+}
+
+interface ShellOperator {
+	kind: "operator";
+	value: string;
+	start: number;
+	end: number;
+}
+
+interface ShellRedirect {
+	kind: "redirect";
+	value: string;
+	start: number;
+	end: number;
+}
+
+type ShellToken = ShellWord | ShellOperator | ShellRedirect;
+
+interface Redirect {
+	operator: string;
+	target: string;
+}
+
+interface SimpleCommand {
+	text: string;
+	words: ShellWord[];
+	redirects: Redirect[];
+}
+
+interface ParsedShell {
+	commands: SimpleCommand[];
+	substitutions: string[];
+	error?: string;
+}
+
+interface Block {
+	reason: string;
+	segment?: string;
+	commandText?: string;
+	rule?: string;
+}
+
+type CommandCheck = (args: string[], policy: BashPolicy) => Block | undefined;
+
+const CONTROL_OPERATORS = ["&&", "||", "|&", ";;", "|", ";", "&", "(", ")"];
+const REDIRECT_OPERATORS = [
+	"&>>",
+	"<<<",
+	"<<-",
+	"&>",
+	">>",
+	">|",
+	">&",
+	"<<",
+	"<&",
+	"<>",
+	">",
+	"<",
+];
+const OUTPUT_REDIRECTS = new Set([">", ">>", ">|", "&>", "&>>", "<>", ">&"]);
+const SAFE_REDIRECT_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "/dev/tty"]);
+const SHELL_KEYWORDS = new Set([
+	"if",
+	"then",
+	"elif",
+	"else",
+	"fi",
+	"do",
+	"done",
+	"while",
+	"until",
+	"!",
+	"{",
+	"}",
+]);
+
+function readBalancedParens(source: string, openIndex: number): number {
+	let depth = 0;
+	for (let index = openIndex; index < source.length; index++) {
+		const char = source[index];
+		if (char === "\\") {
+			index++;
+			continue;
+		}
+		if (char === "'") {
+			const close = source.indexOf("'", index + 1);
+			if (close === -1) return -1;
+			index = close;
+			continue;
+		}
+		if (char === '"') {
+			index++;
+			while (index < source.length && source[index] !== '"') {
+				if (source[index] === "\\") index++;
+				index++;
+			}
+			if (index >= source.length) return -1;
+			continue;
+		}
+		if (char === "(") depth++;
+		if (char === ")") {
+			depth--;
+			if (depth === 0) return index;
+		}
+	}
+	return -1;
+}
+
+function readBacktick(source: string, openIndex: number): number {
+	for (let index = openIndex + 1; index < source.length; index++) {
+		if (source[index] === "\\") {
+			index++;
+			continue;
+		}
+		if (source[index] === "`") return index;
+	}
+	return -1;
+}
+
+function collectSubstitutions(text: string, substitutions: string[]): void {
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (char === "\\") {
+			index++;
+			continue;
+		}
+		if (char === "$" && text[index + 1] === "(" && text[index + 2] !== "(") {
+			const close = readBalancedParens(text, index + 1);
+			if (close === -1) return;
+			substitutions.push(text.slice(index + 2, close));
+			index = close;
+			continue;
+		}
+		if (char === "`") {
+			const close = readBacktick(text, index);
+			if (close === -1) return;
+			substitutions.push(text.slice(index + 1, close));
+			index = close;
+		}
+	}
+}
+
+function tokenizeShell(
+	source: string,
+	substitutions: string[],
+): { tokens: ShellToken[]; error?: string } {
+	const tokens: ShellToken[] = [];
+	const pendingHeredocs: Array<{ delimiter: string; stripTabs: boolean; quoted: boolean }> = [];
+	let word: ShellWord | undefined;
+	let expectHeredocDelimiter: { stripTabs: boolean } | undefined;
+
+	const startWord = (index: number): ShellWord => {
+		if (!word) {
+			word = { kind: "word", value: "", expanded: false, shape: "", start: index, end: index };
+		}
+		return word;
+	};
+
+	const endWord = (index: number) => {
+		if (!word) return;
+		word.end = index;
+		if (/\{[^{}]*,[^{}]*\}/.test(word.shape)) {
+			word.expanded = true;
+		}
+		if (expectHeredocDelimiter) {
+			pendingHeredocs.push({
+				delimiter: word.value,
+				stripTabs: expectHeredocDelimiter.stripTabs,
+				quoted: /['"\\]/.test(source.slice(word.start, word.end)),
+			});
+			expectHeredocDelimiter = undefined;
+		}
+		tokens.push(word);
+		word = undefined;
+	};
+
+	const skipHeredocBodies = (index: number): number => {
+		let cursor = index;
+		for (const heredoc of pendingHeredocs) {
+			const bodyStart = cursor;
+			while (cursor < source.length) {
+				const lineEnd = source.indexOf("\n", cursor);
+				const line = source.slice(cursor, lineEnd === -1 ? source.length : lineEnd);
+				const candidate = heredoc.stripTabs ? line.replace(/^\t+/, "") : line;
+				cursor = lineEnd === -1 ? source.length : lineEnd + 1;
+				if (candidate === heredoc.delimiter) {
+					if (!heredoc.quoted) {
+						collectSubstitutions(source.slice(bodyStart, cursor), substitutions);
+					}
+					break;
+				}
+			}
+		}
+		pendingHeredocs.length = 0;
+		return cursor;
+	};
+
+	let index = 0;
+	while (index < source.length) {
+		const char = source[index];
+
+		if (char === "\n") {
+			endWord(index);
+			tokens.push({ kind: "operator", value: ";", start: index, end: index + 1 });
+			index = skipHeredocBodies(index + 1);
+			continue;
+		}
+
+		if (char === " " || char === "\t") {
+			endWord(index);
+			index++;
+			continue;
+		}
+
+		if (char === "#" && !word) {
+			const lineEnd = source.indexOf("\n", index);
+			index = lineEnd === -1 ? source.length : lineEnd;
+			continue;
+		}
+
+		if (char === "\\") {
+			if (source[index + 1] === "\n") {
+				index += 2;
+				continue;
+			}
+			const current = startWord(index);
+			current.value += source[index + 1] ?? "";
+			current.shape += "x";
+			index += 2;
+			continue;
+		}
+
+		if (char === "'") {
+			const close = source.indexOf("'", index + 1);
+			if (close === -1) return { tokens, error: "unterminated single quote" };
+			const current = startWord(index);
+			current.value += source.slice(index + 1, close);
+			current.shape += "x";
+			index = close + 1;
+			continue;
+		}
+
+		if (char === '"') {
+			const current = startWord(index);
+			current.shape += "x";
+			let cursor = index + 1;
+			while (cursor < source.length && source[cursor] !== '"') {
+				const inner = source[cursor];
+				if (inner === "\\" && cursor + 1 < source.length) {
+					const escaped = source[cursor + 1];
+					current.value += /["\\$`\n]/.test(escaped) ? escaped : `\\${escaped}`;
+					cursor += 2;
+					continue;
+				}
+				if (inner === "$" && source[cursor + 1] === "(" && source[cursor + 2] !== "(") {
+					const close = readBalancedParens(source, cursor + 1);
+					if (close === -1) return { tokens, error: "unterminated command substitution" };
+					substitutions.push(source.slice(cursor + 2, close));
+					current.value += source.slice(cursor, close + 1);
+					current.expanded = true;
+					cursor = close + 1;
+					continue;
+				}
+				if (inner === "`") {
+					const close = readBacktick(source, cursor);
+					if (close === -1) return { tokens, error: "unterminated backtick substitution" };
+					substitutions.push(source.slice(cursor + 1, close));
+					current.value += source.slice(cursor, close + 1);
+					current.expanded = true;
+					cursor = close + 1;
+					continue;
+				}
+				if (inner === "$") {
+					current.expanded = true;
+				}
+				current.value += inner;
+				cursor++;
+			}
+			if (cursor >= source.length) return { tokens, error: "unterminated double quote" };
+			index = cursor + 1;
+			continue;
+		}
+
+		if (char === "$" && source[index + 1] === "(") {
+			const current = startWord(index);
+			const close = readBalancedParens(source, index + 1);
+			if (close === -1) return { tokens, error: "unterminated command substitution" };
+			if (source[index + 2] === "(") {
+				collectSubstitutions(source.slice(index + 3, close - 1), substitutions);
+			} else {
+				substitutions.push(source.slice(index + 2, close));
+			}
+			current.value += source.slice(index, close + 1);
+			current.shape += "x";
+			current.expanded = true;
+			index = close + 1;
+			continue;
+		}
+
+		if (char === "$" && source[index + 1] === "{") {
+			const current = startWord(index);
+			const close = source.indexOf("}", index + 2);
+			if (close === -1) return { tokens, error: "unterminated parameter expansion" };
+			collectSubstitutions(source.slice(index + 2, close), substitutions);
+			current.value += source.slice(index, close + 1);
+			current.shape += "x";
+			current.expanded = true;
+			index = close + 1;
+			continue;
+		}
+
+		if (char === "`") {
+			const current = startWord(index);
+			const close = readBacktick(source, index);
+			if (close === -1) return { tokens, error: "unterminated backtick substitution" };
+			substitutions.push(source.slice(index + 1, close));
+			current.value += source.slice(index, close + 1);
+			current.shape += "x";
+			current.expanded = true;
+			index = close + 1;
+			continue;
+		}
+
+		if ((char === "<" || char === ">") && source[index + 1] === "(") {
+			const current = startWord(index);
+			const close = readBalancedParens(source, index + 1);
+			if (close === -1) return { tokens, error: "unterminated process substitution" };
+			substitutions.push(source.slice(index + 2, close));
+			current.value += source.slice(index, close + 1);
+			current.shape += "x";
+			current.expanded = true;
+			index = close + 1;
+			continue;
+		}
+
+		const redirect = REDIRECT_OPERATORS.find((operator) => source.startsWith(operator, index));
+		if (redirect) {
+			let start = index;
+			if (word && /^\d+$/.test(source.slice(word.start, index))) {
+				start = word.start;
+				word = undefined;
+			} else {
+				endWord(index);
+			}
+			tokens.push({ kind: "redirect", value: redirect, start, end: index + redirect.length });
+			if (redirect === "<<" || redirect === "<<-") {
+				expectHeredocDelimiter = { stripTabs: redirect === "<<-" };
+			}
+			index += redirect.length;
+			continue;
+		}
+
+		const operator = CONTROL_OPERATORS.find((candidate) => source.startsWith(candidate, index));
+		if (operator) {
+			endWord(index);
+			tokens.push({
+				kind: "operator",
+				value: operator,
+				start: index,
+				end: index + operator.length,
+			});
+			index += operator.length;
+			continue;
+		}
+
+		const current = startWord(index);
+		if (char === "$") {
+			current.expanded = true;
+		}
+		current.value += char;
+		current.shape += char;
+		index++;
+	}
+	endWord(source.length);
+
+	return { tokens };
+}
+
+function parseShell(source: string): ParsedShell {
+	const substitutions: string[] = [];
+	const { tokens, error } = tokenizeShell(source, substitutions);
+	if (error) {
+		return { commands: [], substitutions, error };
+	}
+
+	const commands: SimpleCommand[] = [];
+	let words: ShellWord[] = [];
+	let redirects: Redirect[] = [];
+	let start = -1;
+	let end = -1;
+
+	const flush = () => {
+		if (words.length > 0 || redirects.length > 0) {
+			commands.push({ text: source.slice(start, end).trim(), words, redirects });
+		}
+		words = [];
+		redirects = [];
+		start = -1;
+	};
+
+	for (let index = 0; index < tokens.length; index++) {
+		const token = tokens[index];
+		if (token.kind === "operator") {
+			flush();
+			continue;
+		}
+
+		if (start === -1) start = token.start;
+		end = token.end;
+
+		if (token.kind === "redirect") {
+			const target = tokens[index + 1];
+			if (!target || target.kind !== "word") {
+				return {
+					commands,
+					substitutions,
+					error: `missing target for redirection '${token.value}'`,
+				};
+			}
+			const operator = source.slice(token.start, token.end).replace(/^\d+/, "");
+			redirects.push({ operator, target: target.value });
+			end = target.end;
+			index++;
+			continue;
+		}
+
+		words.push(token);
+	}
+	flush();
+
+	return { commands, substitutions };
+}
+
+function commandName(word: string): string {
+	return word.slice(word.lastIndexOf("/") + 1);
+}
+
+function hasShortFlag(args: string[], flag: string): boolean {
+	return args.some((arg) => /^-[A-Za-z]+$/.test(arg) && arg.includes(flag));
+}
+
+function positionalArgs(args: string[]): string[] {
+	return args.filter((arg) => !arg.startsWith("-"));
+}
+
+/** Positional operands, skipping options and the separate values of `optionsWithValue`. */
+function operandArgs(args: string[], optionsWithValue: string[]): string[] {
+	const operands: string[] = [];
+	for (let index = 0; index < args.length; index++) {
+		if (args[index] === "--") {
+			operands.push(...args.slice(index + 1));
+			break;
+		}
+		if (!args[index].startsWith("-") || args[index] === "-") {
+			operands.push(args[index]);
+		} else if (optionsWithValue.includes(args[index])) {
+			index++;
+		}
+	}
+	return operands;
+}
+
+/** Variables that make git, pagers, editors, or the shell run another program. */
+const EXECUTING_VARIABLE_PATTERN =
+	/^(?:GIT_\w+|PAGER|MANPAGER|SYSTEMD_PAGER|LESSOPEN|LESSCLOSE|LESS|EDITOR|VISUAL|BROWSER|SHELL|BASH_ENV|ENV|PATH|IFS|PROMPT_COMMAND|LD_\w+|DYLD_\w+|NODE_OPTIONS|PYTHONSTARTUP|PYTHONPATH|PERL5OPT|RUBYOPT|SSH_ASKPASS)$/;
+
+function checkAssignment(word: string): Block | undefined {
+	const name = word.match(/^([A-Za-z_][A-Za-z0-9_]*)\+?=/)?.[1];
+	if (!name || !EXECUTING_VARIABLE_PATTERN.test(name)) return undefined;
+	return {
+		reason: `assigning ${name} can make the command run another program`,
+		rule: "environment assignment",
+	};
+}
+
+function blockedIfAny(args: string[], flags: string[], reason: string): Block | undefined {
+	const hit = args.find((arg) => flags.some((flag) => arg === flag || arg.startsWith(`${flag}=`)));
+	return hit ? { reason: `${reason} (${hit})` } : undefined;
+}
+
+const allow: CommandCheck = () => undefined;
+
+function checkFind(args: string[], policy: BashPolicy): Block | undefined {
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index];
+		if (arg === "-delete") {
+			return { reason: "find -delete removes files" };
+		}
+		if (["-fprint", "-fprint0", "-fprintf", "-fls"].includes(arg)) {
+			return { reason: `find ${arg} writes to a file` };
+		}
+		if (["-exec", "-execdir", "-ok", "-okdir"].includes(arg)) {
+			const terminator = args.findIndex(
+				(candidate, candidateIndex) =>
+					candidateIndex > index && (candidate === ";" || candidate === "+"),
+			);
+			const execArgs = args.slice(index + 1, terminator === -1 ? args.length : terminator);
+			const nested = judgeArgv(execArgs, policy);
+			if (nested) {
+				return { reason: `find ${arg} runs a blocked command: ${nested.reason}` };
+			}
+			index = terminator === -1 ? args.length : terminator;
+		}
+	}
+	return undefined;
+}
+
+function sedScriptWrites(script: string): boolean {
+	const lineAddress = String.raw`(?:\d+(?:~\d+)?|\$|/(?:[^/\\]|\\.)*/[IM]*)`;
+	const address = String.raw`${lineAddress}(?:\s*,\s*(?:${lineAddress}|[~+]\d+))?`;
+	const addressPrefix = new RegExp(`^(?:${address})?\\s*!?\\s*`);
+	for (const rawCommand of script.split(/[;\n]/)) {
+		// Strip addresses and block braces (`1~2{`, `/x/!{`) down to the command letter.
+		let command = rawCommand.trim();
+		let previous: string;
+		do {
+			previous = command;
+			command = command.replace(/^[{}]\s*/, "").replace(addressPrefix, "");
+		} while (command !== previous);
+		if (/^[wWe]/.test(command)) {
+			return true;
+		}
+		const substitution = command.match(
+			/^s(.)(?:(?!\1)[^\\]|\\.)*\1(?:(?!\1)[^\\]|\\.)*\1([A-Za-z0-9]*)/,
+		);
+		if (substitution && /[we]/.test(substitution[2])) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function checkSed(args: string[]): Block | undefined {
+	const scripts: string[] = [];
+	const positional: string[] = [];
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index];
+		if (arg === "--in-place" || arg.startsWith("--in-place=")) {
+			return { reason: "sed --in-place edits files" };
+		}
+		if (arg === "-f" || arg === "--file" || arg.startsWith("--file=")) {
+			return { reason: "sed script files cannot be inspected" };
+		}
+		if (arg === "-e" || arg === "--expression") {
+			scripts.push(args[index + 1] ?? "");
+			index++;
+			continue;
+		}
+		if (arg.startsWith("--expression=")) {
+			scripts.push(arg.slice("--expression=".length));
+			continue;
+		}
+		if (arg.startsWith("--")) {
+			continue;
+		}
+		if (/^-[A-Za-z]+/.test(arg)) {
+			const cluster = arg.slice(1);
+			const scriptFlag = cluster.indexOf("e");
+			const flags = scriptFlag === -1 ? cluster : cluster.slice(0, scriptFlag);
+			if (flags.includes("i")) {
+				return { reason: `sed ${arg} edits files in place` };
+			}
+			if (scriptFlag !== -1) {
+				const attached = cluster.slice(scriptFlag + 1);
+				scripts.push(attached.length > 0 ? attached : (args[index + 1] ?? ""));
+				if (attached.length === 0) index++;
+			}
+			continue;
+		}
+		positional.push(arg);
+	}
+	if (scripts.length === 0 && positional.length > 0) {
+		scripts.push(positional[0]);
+	}
+	if (scripts.some(sedScriptWrites)) {
+		return { reason: "sed script writes files or runs commands (w/W/e)" };
+	}
+	return undefined;
+}
+
+const AWK_UNSAFE_PATTERNS = [/\bsystem\s*\(/, /(^|[^|])\|(?!\|)/, /\bprintf?\b[^;}\n]*>/];
+
+function checkAwk(args: string[]): Block | undefined {
+	let program: string | undefined;
+	for (let index = 0; index < args.length; index++) {
+		const arg = args[index];
+		if (arg === "-f" || arg.startsWith("--file")) {
+			return { reason: "awk program files cannot be inspected" };
+		}
+		if (arg === "-i" || arg === "--include") {
+			if (args[index + 1] === "inplace") {
+				return { reason: "awk -i inplace edits files" };
+			}
+			index++;
+			continue;
+		}
+		if (arg === "-F" || arg === "-v") {
+			index++;
+			continue;
+		}
+		if (arg.startsWith("-")) {
+			continue;
+		}
+		program = arg;
+		break;
+	}
+	if (program && AWK_UNSAFE_PATTERNS.some((pattern) => pattern.test(program))) {
+		return { reason: "awk program can run commands or write files" };
+	}
+	return undefined;
+}
+
+const GIT_READ_ONLY_SUBCOMMANDS = new Set([
+	"log",
+	"diff",
+	"status",
+	"show",
+	"blame",
+	"annotate",
+	"shortlog",
+	"describe",
+	"rev-parse",
+	"rev-list",
+	"ls-files",
+	"ls-tree",
+	"ls-remote",
+	"cat-file",
+	"grep",
+	"diff-tree",
+	"diff-files",
+	"diff-index",
+	"merge-base",
+	"name-rev",
+	"for-each-ref",
+	"show-ref",
+	"show-branch",
+	"count-objects",
+	"whatchanged",
+	"check-ignore",
+	"check-attr",
+	"cherry",
+	"range-diff",
+	"var",
+	"help",
+	"version",
+]);
+
+/** Subcommands that render diffs, so `--output` writes a file and `--ext-diff` runs a diff driver. */
+const GIT_DIFF_SUBCOMMANDS = new Set([
+	"log",
+	"diff",
+	"show",
+	"whatchanged",
+	"diff-tree",
+	"diff-files",
+	"diff-index",
+	"range-diff",
+]);
+
+/** Options any git subcommand may use to run another program. */
+const GIT_EXECUTING_OPTIONS = ["--upload-pack", "--receive-pack", "--exec"];
+
+const GIT_LISTING_FLAGS = [
+	"-l",
+	"--list",
+	"--contains",
+	"--no-contains",
+	"--merged",
+	"--no-merged",
+	"--points-at",
+];
+
+const GIT_CONDITIONAL_SUBCOMMANDS: Record<string, (args: string[]) => Block | undefined> = {
+	"ls-remote": (args) =>
+		args.some((arg) => /^-[A-Za-z]*u/.test(arg) && !arg.startsWith("--"))
+			? { reason: "git ls-remote -u runs a program" }
+			: undefined,
+	grep: (args) =>
+		args.some(
+			(arg) =>
+				(/^-[A-Za-z]*O/.test(arg) && !arg.startsWith("--")) ||
+				/^--open-files-in-pager(?:=|$)/.test(arg),
+		)
+			? { reason: "git grep --open-files-in-pager runs a program" }
+			: undefined,
+	branch: (args) => {
+		const mutating = blockedIfAny(
+			args,
+			[
+				"-d",
+				"-D",
+				"--delete",
+				"-m",
+				"-M",
+				"--move",
+				"-c",
+				"-C",
+				"--copy",
+				"-f",
+				"--force",
+				"-u",
+				"--set-upstream-to",
+				"--unset-upstream",
+				"--edit-description",
+			],
+			"git branch option changes branches",
+		);
+		if (mutating) return mutating;
+		const listing = args.some((arg) =>
+			GIT_LISTING_FLAGS.some((flag) => arg === flag || arg.startsWith(`${flag}=`)),
+		);
+		if (!listing && positionalArgs(args).length > 0) {
+			return { reason: "git branch <name> creates a branch" };
+		}
+		return undefined;
+	},
+	tag: (args) => {
+		const mutating = blockedIfAny(
+			args,
+			[
+				"-d",
+				"--delete",
+				"-a",
+				"--annotate",
+				"-s",
+				"--sign",
+				"-u",
+				"--local-user",
+				"-m",
+				"--message",
+				"-F",
+				"--file",
+				"-f",
+				"--force",
+			],
+			"git tag option changes tags",
+		);
+		if (mutating) return mutating;
+		const listing = args.some((arg) =>
+			GIT_LISTING_FLAGS.some((flag) => arg === flag || arg.startsWith(`${flag}=`)),
+		);
+		if (!listing && positionalArgs(args).length > 0) {
+			return { reason: "git tag <name> creates a tag" };
+		}
+		return undefined;
+	},
+	remote: (args) => {
+		const [subcommand] = positionalArgs(args);
+		if (!subcommand || ["show", "get-url"].includes(subcommand)) return undefined;
+		return { reason: `git remote ${subcommand} changes remotes` };
+	},
+	config: (args) => {
+		const reading = args.some((arg) =>
+			["--get", "--get-all", "--get-regexp", "--get-urlmatch", "--list", "-l"].includes(arg),
+		);
+		return reading
+			? undefined
+			: { reason: "git config without --get/--list may write configuration" };
+	},
+	stash: (args) => {
+		const [subcommand] = positionalArgs(args);
+		if (subcommand === "list" || subcommand === "show") return undefined;
+		return {
+			reason: `${subcommand ? `git stash ${subcommand}` : "git stash"} changes the working tree`,
+		};
+	},
+	reflog: (args) => {
+		const [subcommand] = positionalArgs(args);
+		if (subcommand === "expire" || subcommand === "delete") {
+			return { reason: `git reflog ${subcommand} rewrites the reflog` };
+		}
+		return undefined;
+	},
+	worktree: (args) =>
+		positionalArgs(args)[0] === "list" ? undefined : { reason: "git worktree changes worktrees" },
+	notes: (args) => {
+		const [subcommand] = positionalArgs(args);
+		if (!subcommand || subcommand === "list" || subcommand === "show") return undefined;
+		return { reason: `git notes ${subcommand} changes notes` };
+	},
+	submodule: (args) =>
+		positionalArgs(args)[0] === "status"
+			? undefined
+			: { reason: "git submodule changes submodules" },
+};
+
+function checkGit(args: string[]): Block | undefined {
+	let index = 0;
+	while (index < args.length && args[index].startsWith("-")) {
+		const option = args[index];
+		if (option === "-c" || option.startsWith("--config-env")) {
+			return { reason: "git -c can override commands run by git" };
+		}
+		if (option.startsWith("--exec-path=")) {
+			return { reason: "git --exec-path runs git commands from another directory" };
+		}
+		if (["-C", "--git-dir", "--work-tree", "--namespace"].includes(option)) {
+			index += 2;
+			continue;
+		}
+		index++;
+	}
+
+	const subcommand = args[index];
+	if (!subcommand) return undefined;
+	const rest = args.slice(index + 1);
+	const executing = blockedIfAny(
+		rest,
+		GIT_EXECUTING_OPTIONS,
+		`git ${subcommand} option runs a program`,
+	);
+	if (executing) return executing;
+	if (GIT_DIFF_SUBCOMMANDS.has(subcommand)) {
+		const diffOutput =
+			blockedIfAny(rest, ["--output"], `git ${subcommand} --output writes a file`) ??
+			blockedIfAny(
+				rest,
+				["--ext-diff"],
+				`git ${subcommand} --ext-diff runs an external diff program`,
+			);
+		if (diffOutput) return diffOutput;
+	}
+	if (Object.hasOwn(GIT_CONDITIONAL_SUBCOMMANDS, subcommand)) {
+		return GIT_CONDITIONAL_SUBCOMMANDS[subcommand](rest);
+	}
+	if (GIT_READ_ONLY_SUBCOMMANDS.has(subcommand)) return undefined;
+	return { reason: `git ${subcommand} is not a read-only git operation` };
+}
+
+function checkPackageManager(name: string, readOnly: string[]): CommandCheck {
+	return (args) => {
+		if (args.length === 1 && ["--version", "-v"].includes(args[0])) return undefined;
+		const [subcommand] = positionalArgs(args);
+		if (!subcommand || !readOnly.includes(subcommand)) {
+			const label = subcommand ? `${name} ${subcommand}` : name;
+			return { reason: `${label} is not a read-only package manager command` };
+		}
+		if (subcommand === "audit" && args.some((arg) => arg === "fix" || arg === "--fix")) {
+			return { reason: `${name} audit fix installs packages` };
+		}
+		if (subcommand === "config" && !["get", "list", "ls"].includes(positionalArgs(args)[1] ?? "")) {
+			return { reason: `${name} config may write configuration` };
+		}
+		return undefined;
+	};
+}
+
+const versionOnly: CommandCheck = (args) => {
+	if (args.length === 1 && ["--version", "-v", "-V", "version"].includes(args[0])) return undefined;
+	return { reason: "only version checks are allowed for this interpreter" };
+};
+
+function skipOptions(args: string[], optionsWithValue: string[]): string[] {
+	let index = 0;
+	while (index < args.length && args[index].startsWith("-")) {
+		if (args[index] === "--") {
+			index++;
+			break;
+		}
+		index += optionsWithValue.includes(args[index]) ? 2 : 1;
+	}
+	return args.slice(index);
+}
+
+function wrapper(optionsWithValue: string[], leadingOperands = 0): CommandCheck {
+	return (args, policy) => {
+		const rest = skipOptions(args, optionsWithValue).slice(leadingOperands);
+		return rest.length > 0 ? judgeArgv(rest, policy) : undefined;
+	};
+}
+
+function checkEnv(args: string[], policy: BashPolicy): Block | undefined {
+	let index = 0;
+	while (index < args.length) {
+		const arg = args[index];
+		if (arg === "-S" || arg === "--split-string" || arg.startsWith("--split-string=")) {
+			const script = arg.startsWith("--split-string=")
+				? arg.slice("--split-string=".length)
+				: (args[index + 1] ?? "");
+			const verdict = analyzeBashCommand(script, policy);
+			return verdict.allowed
+				? undefined
+				: {
+						reason: verdict.reason ?? "blocked",
+						segment: verdict.segment,
+						commandText: verdict.commandText,
+						rule: verdict.rule,
+					};
+		}
+		if (["-u", "--unset", "-C", "--chdir"].includes(arg)) {
+			index += 2;
+			continue;
+		}
+		if (arg.startsWith("-") || /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+			const assignment = checkAssignment(arg);
+			if (assignment) return assignment;
+			index++;
+			continue;
+		}
+		break;
+	}
+	const rest = args.slice(index);
+	return rest.length > 0 ? judgeArgv(rest, policy) : undefined;
+}
+
+function checkShell(args: string[], policy: BashPolicy): Block | undefined {
+	const commandFlag = args.findIndex((arg) => /^-[A-Za-z]*c[A-Za-z]*$/.test(arg));
+	if (commandFlag === -1) {
+		return { reason: "running shell scripts cannot be inspected" };
+	}
+	const verdict = analyzeBashCommand(args[commandFlag + 1] ?? "", policy);
+	return verdict.allowed
+		? undefined
+		: {
+				reason: verdict.reason ?? "blocked",
+				segment: verdict.segment,
+				commandText: verdict.commandText,
+				rule: verdict.rule,
+			};
+}
+
+const READ_ONLY_COMMANDS: Record<string, CommandCheck> = {
+	cat: allow,
+	head: allow,
+	tail: allow,
+	less: allow,
+	more: allow,
+	grep: allow,
+	egrep: allow,
+	fgrep: allow,
+	rg: (args) => blockedIfAny(args, ["--pre"], "rg --pre runs a preprocessor program"),
+	ls: allow,
+	pwd: allow,
+	cd: allow,
+	echo: allow,
+	printf: allow,
+	wc: allow,
+	uniq: (args) =>
+		positionalArgs(args).length > 1 ? { reason: "uniq with an output file writes it" } : undefined,
+	sort: (args) =>
+		blockedIfAny(args, ["-o", "--output"], "sort -o writes a file") ??
+		blockedIfAny(args, ["--compress-program"], "sort --compress-program runs a program") ??
+		(args.some((arg) => /^-[A-Za-z]*o/.test(arg) && !arg.startsWith("--"))
+			? { reason: "sort -o writes a file" }
+			: undefined),
+	diff: allow,
+	cmp: allow,
+	comm: allow,
+	file: allow,
+	stat: allow,
+	du: allow,
+	df: allow,
+	tree: (args) => blockedIfAny(args, ["-o"], "tree -o writes a file"),
+	which: allow,
+	whereis: allow,
+	type: allow,
+	printenv: allow,
+	uname: allow,
+	whoami: allow,
+	id: allow,
+	date: (args) => blockedIfAny(args, ["-s", "--set"], "date --set changes the system clock"),
+	cal: allow,
+	uptime: allow,
+	ps: allow,
+	top: allow,
+	htop: allow,
+	free: allow,
+	jq: allow,
+	basename: allow,
+	dirname: allow,
+	realpath: allow,
+	readlink: allow,
+	cut: allow,
+	tr: allow,
+	nl: allow,
+	column: allow,
+	tac: allow,
+	rev: allow,
+	fold: allow,
+	paste: allow,
+	seq: allow,
+	strings: allow,
+	od: allow,
+	xxd: (args) =>
+		operandArgs(args, [
+			"-c",
+			"-cols",
+			"-g",
+			"-groupsize",
+			"-l",
+			"-len",
+			"-o",
+			"-offset",
+			"-s",
+			"-seek",
+			"-n",
+			"-name",
+		]).length > 1
+			? { reason: "xxd with an output file writes it" }
+			: undefined,
+	hexdump: allow,
+	md5sum: allow,
+	sha1sum: allow,
+	sha256sum: allow,
+	shasum: allow,
+	true: allow,
+	false: allow,
+	test: allow,
+	"[": allow,
+	"[[": allow,
+	for: allow,
+	find: checkFind,
+	fd: (args, policy) => {
+		const exec = args.findIndex((arg) => ["-x", "--exec", "-X", "--exec-batch"].includes(arg));
+		if (exec === -1) return undefined;
+		const nested = judgeArgv(args.slice(exec + 1), policy);
+		return nested
+			? { reason: `fd ${args[exec]} runs a blocked command: ${nested.reason}` }
+			: undefined;
+	},
+	sed: checkSed,
+	awk: checkAwk,
+	gawk: checkAwk,
+	mawk: checkAwk,
+	nawk: checkAwk,
+	git: checkGit,
+	npm: checkPackageManager("npm", [
+		"list",
+		"ls",
+		"ll",
+		"la",
+		"view",
+		"info",
+		"show",
+		"search",
+		"outdated",
+		"audit",
+		"explain",
+		"why",
+		"config",
+		"prefix",
+		"root",
+		"help",
+	]),
+	yarn: checkPackageManager("yarn", ["list", "info", "why", "audit", "outdated"]),
+	pnpm: checkPackageManager("pnpm", ["list", "ls", "why", "outdated", "audit"]),
+	node: versionOnly,
+	python: versionOnly,
+	python3: versionOnly,
+	env: checkEnv,
+	xargs: (args, policy) => {
+		const rest = skipOptions(args, ["-I", "-n", "-L", "-P", "-s", "-d", "-E", "-a"]);
+		if (rest.length === 0) return undefined;
+		const nested = judgeArgv(rest, policy);
+		return nested ? { reason: `xargs runs a blocked command: ${nested.reason}` } : undefined;
+	},
+	command: (args, policy) =>
+		hasShortFlag(args, "v") || hasShortFlag(args, "V") ? undefined : wrapper([])(args, policy),
+	builtin: wrapper([]),
+	time: wrapper([]),
+	nohup: wrapper([]),
+	nice: wrapper(["-n", "--adjustment"]),
+	timeout: wrapper(["-s", "--signal", "-k", "--kill-after"], 1),
+	sh: checkShell,
+	bash: checkShell,
+	zsh: checkShell,
+};
+
+const PRIVILEGED_COMMANDS = new Set(["sudo", "doas", "su"]);
+
+/** Index of the command word, after leading shell keywords and variable assignments. */
+function findCommandStart(argv: string[]): number {
+	let index = 0;
+	while (
+		index < argv.length &&
+		(SHELL_KEYWORDS.has(argv[index]) || /^[A-Za-z_][A-Za-z0-9_]*(\+)?=/.test(argv[index]))
+	) {
+		index++;
+	}
+	return index;
+}
+
+function judgeArgv(
+	argv: string[],
+	policy: BashPolicy,
+	expanded: boolean[] = [],
+): Block | undefined {
+	const index = findCommandStart(argv);
+	for (const word of argv.slice(0, index)) {
+		const assignment = checkAssignment(word);
+		if (assignment) return assignment;
+	}
+	if (index >= argv.length) {
+		return undefined;
+	}
+
+	if (expanded[index]) {
+		return {
+			reason: "command name is computed at runtime and cannot be checked",
+			rule: "computed command name",
+		};
+	}
+
+	const commandText = argv.slice(index).join(" ");
+	const denied = policy.deny.find((pattern) => pattern.test(commandText));
+	if (denied) {
+		return {
+			reason: `matches denied pattern ${denied} from the plan policy`,
+			commandText,
+			rule: `bash.deny ${denied}`,
+		};
+	}
+	if (policy.allow.some((pattern) => pattern.test(commandText))) {
+		return undefined;
+	}
+
+	const name = commandName(argv[index]);
+	if (PRIVILEGED_COMMANDS.has(name)) {
+		return {
+			reason: `${name} runs commands with elevated privileges`,
+			commandText,
+			rule: "privileged command",
+		};
+	}
+	if (!Object.hasOwn(READ_ONLY_COMMANDS, name)) {
+		return {
+			reason: `'${name}' is not on the plan-mode read-only allowlist`,
+			commandText,
+			rule: "read-only command allowlist",
+		};
+	}
+	const check = READ_ONLY_COMMANDS[name];
+	const computed = check === allow ? -1 : expanded.indexOf(true, index + 1);
+	if (computed !== -1) {
+		return {
+			reason: `'${name}' arguments are checked, but ${argv[computed]} is expanded at runtime`,
+			commandText,
+			rule: "computed argument",
+		};
+	}
+	const blocked = check(argv.slice(index + 1), policy);
+	return (
+		blocked && { commandText, ...blocked, rule: blocked.rule ?? `read-only checks for '${name}'` }
+	);
+}
+
+/** Names the rule that lets an argv through; only meaningful when `judgeArgv` returned nothing. */
+function describeAllowedArgv(argv: string[], policy: BashPolicy): string {
+	const index = findCommandStart(argv);
+	if (index >= argv.length) {
+		return "no command (keywords or assignments only)";
+	}
+	const commandText = argv.slice(index).join(" ");
+	const allowed = policy.allow.find((pattern) => pattern.test(commandText));
+	if (allowed) {
+		return `bash.allow ${allowed}`;
+	}
+	const name = commandName(argv[index]);
+	return READ_ONLY_COMMANDS[name] === allow
+		? `read-only command allowlist ('${name}')`
+		: `read-only command allowlist ('${name}', arguments checked)`;
+}
+
+function judgeCommand(command: SimpleCommand, policy: BashPolicy): Block | undefined {
+	for (const redirect of command.redirects) {
+		if (!OUTPUT_REDIRECTS.has(redirect.operator)) continue;
+		if (redirect.operator === ">&" && /^(\d+|-)$/.test(redirect.target)) continue;
+		if (SAFE_REDIRECT_TARGETS.has(redirect.target)) continue;
+		return {
+			reason: `output redirection '${redirect.operator} ${redirect.target}' writes a file`,
+			rule: "output redirection",
+		};
+	}
+
+	return judgeArgv(
+		command.words.map((word) => word.value),
+		policy,
+		command.words.map((word) => word.expanded),
+	);
+}
+
+export function analyzeBashCommand(
+	command: string,
+	policy: BashPolicy = EMPTY_POLICY,
+): BashVerdict {
+	if (command.trim().length === 0) {
+		return { allowed: false, segment: command, reason: "empty command", rule: "empty command" };
+	}
+
+	const parsed = parseShell(command);
+	if (parsed.error) {
+		return {
+			allowed: false,
+			segment: command,
+			reason: `could not parse command: ${parsed.error}`,
+			rule: "shell parser",
+		};
+	}
+
+	for (const simpleCommand of parsed.commands) {
+		const blocked = judgeCommand(simpleCommand, policy);
+		if (blocked) {
+			return {
+				allowed: false,
+				segment: blocked.segment ?? simpleCommand.text,
+				reason: blocked.reason,
+				commandText: blocked.commandText,
+				rule: blocked.rule,
+			};
+		}
+	}
+
+	for (const substitution of parsed.substitutions) {
+		const verdict = analyzeBashCommand(substitution, policy);
+		if (!verdict.allowed) {
+			return verdict;
+		}
+	}
+
+	return { allowed: true };
+}
+
+/** Judges every segment of a command (not just the first blocked one) and names the rule behind each decision. */
+export function explainBashCommand(
+	command: string,
+	policy: BashPolicy = EMPTY_POLICY,
+): BashExplanation {
+	const verdict = analyzeBashCommand(command, policy);
+	const parsed = command.trim().length > 0 ? parseShell(command) : undefined;
+	if (!parsed || parsed.error) {
+		return {
+			verdict,
+			segments: [
+				{
+					segment: command,
+					allowed: false,
+					rule: verdict.rule ?? "blocked",
+					reason: verdict.reason,
+				},
+			],
+		};
+	}
+
+	const segments = parsed.commands.map((simpleCommand): BashSegmentExplanation => {
+		const blocked = judgeCommand(simpleCommand, policy);
+		if (blocked) {
+			return {
+				segment: blocked.segment ?? simpleCommand.text,
+				allowed: false,
+				rule: blocked.rule ?? "blocked",
+				reason: blocked.reason,
+			};
+		}
+		return {
+			segment: simpleCommand.text,
+			allowed: true,
+			rule: describeAllowedArgv(
+				simpleCommand.words.map((word) => word.value),
+				policy,
+			),
+		};
+	});
+	for (const substitution of parsed.substitutions) {
+		segments.push(...explainBashCommand(substitution, policy).segments);
+	}
+	return { verdict, segments };
+}
+
+export function formatBashExplanation(command: string, explanation: BashExplanation): string {
+	const { verdict, segments } = explanation;
+	const lines = [
+		`Plan-mode guard: ${verdict.allowed ? "allowed" : "blocked"}`,
+		`Command: ${command}`,
+	];
+	if (!verdict.allowed) {
+		lines.push(
+			`Blocked segment: ${verdict.segment ?? command}`,
+			`Reason: ${verdict.reason ?? "blocked"}`,
+			`Rule: ${verdict.rule ?? "unknown"}`,
+		);
+	}
+	lines.push(
+		"Segments:",
+		...segments.map((segment) =>
+			segment.allowed
+				? `  ✓ ${segment.segment} — ${segment.rule}`
+				: `  ✗ ${segment.segment} — ${segment.rule}: ${segment.reason ?? "blocked"}`,
+		),
+	);
+	return lines.join("\n");
+}
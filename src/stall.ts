@@ -0,0 +1,56 @@
+import { formatDuration, type TodoItem } from "./utils";
+
+/** Per-step budgets during execution; 0 disables a limit. */
+export interface StallLimits {
+	turns: number;
+	toolCalls: number;
+	minutes: number;
+}
+
+export const DEFAULT_STALL_LIMITS: StallLimits = {
+	turns: 8,
+	toolCalls: 40,
+	minutes: 20,
+};
+
+export type StallAction = "nudge" | "block" | "replan" | "continue";
+
+export function getStallReasons(item: TodoItem, limits: StallLimits, now = Date.now()): string[] {
+	const reasons: string[] = [];
+	const turns = item.turns ?? 0;
+	const toolCalls = item.toolCalls ?? 0;
+	if (limits.turns > 0 && turns >= limits.turns) {
+		reasons.push(`${turns} turns (limit ${limits.turns})`);
+	}
+	if (limits.toolCalls > 0 && toolCalls >= limits.toolCalls) {
+		reasons.push(`${toolCalls} tool calls (limit ${limits.toolCalls})`);
+	}
+	if (limits.minutes > 0 && item.startedAt !== undefined) {
+		const elapsed = now - item.startedAt;
+		if (elapsed >= limits.minutes * 60_000) {
+			reasons.push(`${formatDuration(elapsed)} elapsed (limit ${limits.minutes}m)`);
+		}
+	}
+	return reasons;
+}
+
+export function formatStallLimits(limits: StallLimits): string {
+	const parts = [
+		limits.turns > 0 ? `${limits.turns} turns` : undefined,
+		limits.toolCalls > 0 ? `${limits.toolCalls} tool calls` : undefined,
+		limits.minutes > 0 ? `${limits.minutes} minutes` : undefined,
+	].filter((part): part is string => part !== undefined);
+	return parts.length > 0 ? parts.join(", ") : "off";
+}
+
+export function buildStallNudgeMessage(item: TodoItem, reasons: string[]): string {
+	return `Step ${item.id} (${item.text}) has taken ${reasons.join(", ")}. Stop exploring: finish the step with the smallest change that satisfies it and mark it [DONE:${item.id}], or report it as blocked with plan_progress and explain what is missing.`;
+}
+
+export function buildStallReplanMessage(
+	item: TodoItem,
+	reasons: string[],
+	completed: string[],
+): string {
+	return `Execution stalled on step ${item.id} (${item.text}) after ${reasons.join(", ")}. Already completed: ${completed.length > 0 ? completed.join("; ") : "(none)"}. Investigate why the step is stuck and provide an updated Plan: section covering only the remaining work, splitting step ${item.id} into smaller steps if needed.`;
+}
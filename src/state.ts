@@ -0,0 +1,164 @@
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import type { PlanCheckpoint } from "./checkpoints";
+import type { PlanRevision } from "./history";
+import type { TodoItem } from "./utils";
+
+export const PLAN_STATE_ENTRY_TYPE = "pi-plan-state";
+export const PLAN_REVISION_ENTRY_TYPE = "pi-plan-revision";
+
+export interface PlanStateSnapshot {
+	planModeEnabled: boolean;
+	executionMode: boolean;
+	stepwiseExecution: boolean;
+	verificationMode: boolean;
+	planTemplate: string | null;
+	restoreTools: string[] | null;
+	todoItems: TodoItem[];
+	planRisks: string[];
+	/** Revisions of the current plan; the revisions themselves are separate `pi-plan-revision` entries. */
+	revisionCount: number;
+	activeRevision: number | null;
+	checkpoints: PlanCheckpoint[];
+}
+
+function isTodoItem(value: unknown): value is TodoItem {
+	const candidate = value as Partial<TodoItem> | null;
+	return (
+		typeof candidate === "object" &&
+		candidate !== null &&
+		typeof candidate.step === "number" &&
+		typeof candidate.text === "string" &&
+		typeof candidate.completed === "boolean"
+	);
+}
+
+function toStringArray(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((entry): entry is string => typeof entry === "string")
+		: [];
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function normalizeTodoItem(item: TodoItem): TodoItem {
+	return {
+		...item,
+		id: typeof item.id === "string" ? item.id : String(item.step),
+		fullText: typeof item.fullText === "string" ? item.fullText : item.text,
+		files: toStringArray(item.files),
+		validation: toStringArray(item.validation),
+		risks: toStringArray(item.risks),
+		touchedFiles: Array.isArray(item.touchedFiles) ? toStringArray(item.touchedFiles) : undefined,
+		commands: Array.isArray(item.commands) ? toStringArray(item.commands) : undefined,
+		startedAt: toOptionalNumber(item.startedAt),
+		finishedAt: toOptionalNumber(item.finishedAt),
+		turns: toOptionalNumber(item.turns),
+		toolCalls: toOptionalNumber(item.toolCalls),
+		children: Array.isArray(item.children)
+			? item.children.filter(isTodoItem).map(normalizeTodoItem)
+			: [],
+	};
+}
+
+export function parseTodoItems(value: unknown): TodoItem[] {
+	return Array.isArray(value) ? value.filter(isTodoItem).map(normalizeTodoItem) : [];
+}
+
+function isPlanRevision(value: unknown): value is PlanRevision {
+	const candidate = value as Partial<PlanRevision> | null;
+	return (
+		typeof candidate === "object" &&
+		candidate !== null &&
+		typeof candidate.revision === "number" &&
+		typeof candidate.trigger === "string" &&
+		typeof candidate.createdAt === "number" &&
+		Array.isArray(candidate.steps) &&
+		candidate.steps.every(isTodoItem)
+	);
+}
+
+function isPlanCheckpoint(value: unknown): value is PlanCheckpoint {
+	const candidate = value as Partial<PlanCheckpoint> | null;
+	return (
+		typeof candidate === "object" &&
+		candidate !== null &&
+		typeof candidate.id === "number" &&
+		typeof candidate.commit === "string" &&
+		typeof candidate.createdAt === "number"
+	);
+}
+
+function parsePlanState(data: unknown): PlanStateSnapshot | undefined {
+	const candidate = data as Partial<PlanStateSnapshot> | null;
+	if (typeof candidate !== "object" || candidate === null) {
+		return undefined;
+	}
+
+	const restoreTools = Array.isArray(candidate.restoreTools)
+		? toStringArray(candidate.restoreTools)
+		: null;
+	const todoItems = Array.isArray(candidate.todoItems)
+		? candidate.todoItems.filter(isTodoItem)
+		: [];
+
+	return {
+		planModeEnabled: candidate.planModeEnabled === true,
+		executionMode: candidate.executionMode === true,
+		stepwiseExecution: candidate.stepwiseExecution === true,
+		verificationMode: candidate.verificationMode === true,
+		planTemplate: typeof candidate.planTemplate === "string" ? candidate.planTemplate : null,
+		restoreTools,
+		todoItems: todoItems.map(normalizeTodoItem),
+		planRisks: toStringArray(candidate.planRisks),
+		revisionCount: typeof candidate.revisionCount === "number" ? candidate.revisionCount : 0,
+		activeRevision: typeof candidate.activeRevision === "number" ? candidate.activeRevision : null,
+		checkpoints: Array.isArray(candidate.checkpoints)
+			? candidate.checkpoints.filter(isPlanCheckpoint).map((checkpoint) => ({
+					...checkpoint,
+					label: typeof checkpoint.label === "string" ? checkpoint.label : "checkpoint",
+					beforeStep: typeof checkpoint.beforeStep === "string" ? checkpoint.beforeStep : null,
+					head: typeof checkpoint.head === "string" ? checkpoint.head : null,
+				}))
+			: [],
+	};
+}
+
+/**
+ * Revisions of the current plan: numbering restarts at 1 for every new plan, so they are the
+ * entries from the last `r1` onward, up to the count recorded in the latest state snapshot.
+ */
+export function collectPlanRevisions(
+	entries: SessionEntry[],
+	revisionCount: number,
+): PlanRevision[] {
+	const revisions = entries.flatMap((entry) =>
+		entry.type === "custom" &&
+		entry.customType === PLAN_REVISION_ENTRY_TYPE &&
+		isPlanRevision(entry.data)
+			? [
+					{
+						...entry.data,
+						steps: entry.data.steps.map(normalizeTodoItem),
+						risks: toStringArray(entry.data.risks),
+					},
+				]
+			: [],
+	);
+	const start = revisions.map((revision) => revision.revision).lastIndexOf(1);
+	if (revisionCount === 0 || start === -1) {
+		return [];
+	}
+	return revisions.slice(start).filter((revision) => revision.revision <= revisionCount);
+}
+
+export function findLatestPlanState(entries: SessionEntry[]): PlanStateSnapshot | undefined {
+	for (let index = entries.length - 1; index >= 0; index--) {
+		const entry = entries[index];
+		if (entry.type === "custom" && entry.customType === PLAN_STATE_ENTRY_TYPE) {
+			return parsePlanState(entry.data);
+		}
+	}
+	return undefined;
+}
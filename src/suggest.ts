@@ -0,0 +1,72 @@
+import { escapeRegExp } from "./utils";
+
+/** Heuristics for suggesting plan mode on a YOLO-mode request; 0 disables a numeric rule. */
+export interface PlanSuggestionRules {
+	keywords: string[];
+	/** Request length in characters at which planning is suggested. */
+	minLength: number;
+	/** Number of distinct directories mentioned at which planning is suggested. */
+	minDirectories: number;
+}
+
+export const DEFAULT_SUGGESTION_KEYWORDS = [
+	"migrate",
+	"migration",
+	"schema",
+	"rewrite",
+	"refactor",
+	"auth",
+	"authentication",
+	"permissions",
+	"security",
+	"drop table",
+	"delete all",
+	"upgrade",
+	"across the codebase",
+];
+
+export const DEFAULT_PLAN_SUGGESTION_RULES: PlanSuggestionRules = {
+	keywords: DEFAULT_SUGGESTION_KEYWORDS,
+	minLength: 800,
+	minDirectories: 3,
+};
+
+const PATH_PATTERN = /(?:^|[\s`'"(])((?:\.{1,2}\/|\/|~\/)?[\w@.-]+(?:\/[\w@.-]+)*\/?)/g;
+
+/** Directories of the path-like tokens in `text` (`src/db/schema.ts` → `src/db`, `docs/` → `docs`). */
+export function extractMentionedDirectories(text: string): string[] {
+	const directories = new Set<string>();
+	for (const match of text.matchAll(PATH_PATTERN)) {
+		const token = match[1].replace(/^\.\//, "");
+		if (!token.includes("/") || /^\w+:\/\//.test(token) || token.startsWith("//")) continue;
+		if (token.endsWith("/")) {
+			directories.add(token.replace(/\/+$/, ""));
+			continue;
+		}
+		const parent = token.slice(0, token.lastIndexOf("/"));
+		if (parent.length > 0) {
+			directories.add(parent);
+		}
+	}
+	return [...directories];
+}
+
+export function getPlanSuggestionReasons(text: string, rules: PlanSuggestionRules): string[] {
+	const reasons: string[] = [];
+	const keywords = rules.keywords.filter((keyword) =>
+		new RegExp(`\\b${escapeRegExp(keyword.trim()).replace(/\s+/g, "\\s+")}\\b`, "i").test(text),
+	);
+	if (keywords.length > 0) {
+		reasons.push(`mentions ${keywords.map((keyword) => `"${keyword}"`).join(", ")}`);
+	}
+	if (rules.minLength > 0 && text.length >= rules.minLength) {
+		reasons.push(`${text.length} characters long`);
+	}
+	const directories = extractMentionedDirectories(text);
+	if (rules.minDirectories > 0 && directories.length >= rules.minDirectories) {
+		reasons.push(
+			`touches ${directories.length} directories (${directories.slice(0, 4).join(", ")}${directories.length > 4 ? ", …" : ""})`,
+		);
+	}
+	return reasons;
+}
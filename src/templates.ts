@@ -0,0 +1,216 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+
+export interface PlanTemplate {
+	name: string;
+	description: string;
+	source: string;
+	/** Heading of the numbered step list, e.g. `Plan` or `Fix plan`. */
+	stepsHeading: string;
+	/** Section headings the contract asks for, in order. */
+	sections: string[];
+	contract: string;
+}
+
+export interface LoadedPlanTemplates {
+	templates: PlanTemplate[];
+	errors: string[];
+}
+
+export const DEFAULT_TEMPLATE_NAME = "default";
+
+const STEP_CONTRACT = `   1. <step objective>
+      - Files: <target files/components>
+      - Validation: <command or check proving the step works>
+      - Risk: <optional step-specific risk>`;
+
+const BUILT_IN_TEMPLATES: PlanTemplate[] = [
+	{
+		name: DEFAULT_TEMPLATE_NAME,
+		description: "General implementation plan",
+		source: "built-in",
+		stepsHeading: "Plan",
+		sections: [
+			"Goal understanding",
+			"Evidence gathered",
+			"Uncertainties / assumptions",
+			"Plan",
+			"Risks and rollback notes",
+		],
+		contract: `1) Goal understanding (brief)
+2) Evidence gathered
+   - files/paths/symbols/docs checked
+3) Uncertainties / assumptions
+4) Plan:
+${STEP_CONTRACT}
+5) Risks and rollback notes (prefix step-specific items with "Step n")
+6) End with: "Ready to execute when approved."`,
+	},
+	{
+		name: "bugfix",
+		description: "Reproduce, find the root cause, fix, and guard against regressions",
+		source: "built-in",
+		stepsHeading: "Fix plan",
+		sections: [
+			"Goal understanding",
+			"Reproduction steps",
+			"Evidence gathered",
+			"Root cause",
+			"Fix plan",
+			"Risks and rollback notes",
+		],
+		contract: `1) Goal understanding (expected vs. actual behavior)
+2) Reproduction steps
+   - exact commands/inputs that trigger the bug, or why it cannot be reproduced yet
+3) Evidence gathered
+   - files/paths/symbols/logs checked
+4) Root cause
+   - confirmed cause or ranked hypotheses with the evidence for each
+5) Fix plan:
+${STEP_CONTRACT}
+   Include a step that adds a regression test reproducing the bug.
+6) Risks and rollback notes (prefix step-specific items with "Step n")
+7) End with: "Ready to execute when approved."`,
+	},
+	{
+		name: "migration",
+		description: "Schema or data migration with backfill and rollback",
+		source: "built-in",
+		stepsHeading: "Migration plan",
+		sections: [
+			"Goal understanding",
+			"Current state",
+			"Migration plan",
+			"Data backfill",
+			"Rollback procedure",
+			"Risks",
+		],
+		contract: `1) Goal understanding (target schema/data shape)
+2) Current state
+   - existing schema, data volume, readers and writers of the affected data
+3) Migration plan:
+${STEP_CONTRACT}
+   Order steps so every intermediate state stays compatible with deployed code.
+4) Data backfill
+   - how existing rows are migrated, batching, and how progress is verified
+5) Rollback procedure
+   - how to undo each step and what data could be lost
+6) Risks (prefix step-specific items with "Step n")
+7) End with: "Ready to execute when approved."`,
+	},
+	{
+		name: "refactor",
+		description: "Behavior-preserving restructuring with a call-site inventory",
+		source: "built-in",
+		stepsHeading: "Refactor plan",
+		sections: [
+			"Goal understanding",
+			"Call-site inventory",
+			"Evidence gathered",
+			"Refactor plan",
+			"Risks and rollback notes",
+		],
+		contract: `1) Goal understanding (what changes structurally, what must not change behaviorally)
+2) Call-site inventory
+   - every caller/importer of the affected symbols, with file paths
+3) Evidence gathered
+   - tests and type checks that cover the affected code
+4) Refactor plan:
+${STEP_CONTRACT}
+   Keep each step independently buildable.
+5) Risks and rollback notes (prefix step-specific items with "Step n")
+6) End with: "Ready to execute when approved."`,
+	},
+];
+
+export function getBuiltInTemplates(): PlanTemplate[] {
+	return [...BUILT_IN_TEMPLATES];
+}
+
+export function getTemplateDirectory(cwd: string): string {
+	return join(cwd, ".pi", "plan-templates");
+}
+
+function parseList(value: string): string[] {
+	return value
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+}
+
+export function parseTemplateFile(
+	name: string,
+	content: string,
+	source: string,
+): PlanTemplate | string {
+	const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+	const contract = (frontmatter ? content.slice(frontmatter[0].length) : content).trim();
+	if (contract.length === 0) {
+		return "template body is empty";
+	}
+
+	const fields: Record<string, string> = {};
+	for (const line of frontmatter?.[1].split(/\r?\n/) ?? []) {
+		const field = line.match(/^([A-Za-z]+)\s*:\s*(.*)$/);
+		if (!field) continue;
+		fields[field[1].toLowerCase()] = field[2].trim();
+	}
+
+	const stepsHeading = fields.steps || "Plan";
+	const sections = parseList(fields.sections ?? "");
+	return {
+		name,
+		description: fields.description || "Project template",
+		source,
+		stepsHeading,
+		sections: sections.length > 0 ? sections : [stepsHeading],
+		contract,
+	};
+}
+
+export function loadPlanTemplates(cwd: string): LoadedPlanTemplates {
+	const templates = new Map(BUILT_IN_TEMPLATES.map((template) => [template.name, template]));
+	const errors: string[] = [];
+	const directory = getTemplateDirectory(cwd);
+	if (!existsSync(directory)) {
+		return { templates: [...templates.values()], errors };
+	}
+
+	let files: string[];
+	try {
+		files = readdirSync(directory).filter((file) => file.endsWith(".md"));
+	} catch (error) {
+		return {
+			templates: [...templates.values()],
+			errors: [`${directory}: ${(error as Error).message}`],
+		};
+	}
+
+	for (const file of files.sort()) {
+		const path = join(directory, file);
+		try {
+			const template = parseTemplateFile(
+				basename(file, ".md").toLowerCase(),
+				readFileSync(path, "utf8"),
+				path,
+			);
+			if (typeof template === "string") {
+				errors.push(`${path}: ${template}`);
+				continue;
+			}
+			templates.set(template.name, template);
+		} catch (error) {
+			errors.push(`${path}: ${(error as Error).message}`);
+		}
+	}
+	return { templates: [...templates.values()], errors };
+}
+
+export function formatTemplateList(templates: PlanTemplate[], active?: string): string {
+	const lines = templates.map((template) => {
+		const marker = template.name === active ? "*" : " ";
+		const source = template.source === "built-in" ? "" : ` (${template.source})`;
+		return `${marker} ${template.name} — ${template.description}${source}`;
+	});
+	return `Plan templates (* = active):\n${lines.join("\n")}`;
+}
@@ -1,102 +1,39 @@
-const DESTRUCTIVE_PATTERNS = [
-	/\brm\b/i,
-	/\brmdir\b/i,
-	/\bmv\b/i,
-	/\bcp\b/i,
-	/\bmkdir\b/i,
-	/\btouch\b/i,
-	/\bchmod\b/i,
-	/\bchown\b/i,
-	/\bchgrp\b/i,
-	/\bln\b/i,
-	/\btee\b/i,
-	/\btruncate\b/i,
-	/\bdd\b/i,
-	/\bshred\b/i,
-	/(^|[^<])>(?!>)/,
-	/>>/,
-	/\bnpm\s+(install|uninstall|update|ci|link|publish)\b/i,
-	/\byarn\s+(add|remove|install|publish)\b/i,
-	/\bpnpm\s+(add|remove|install|publish)\b/i,
-	/\bpip\s+(install|uninstall)\b/i,
-	/\bapt(-get)?\s+(install|remove|purge|update|upgrade)\b/i,
-	/\bbrew\s+(install|uninstall|upgrade)\b/i,
-	/\bgit\s+(add|commit|push|pull|merge|rebase|reset|checkout|branch\s+-[dD]|stash|cherry-pick|revert|tag|init|clone)\b/i,
-	/\bsudo\b/i,
-	/\bsu\b/i,
-	/\bkill\b/i,
-	/\bpkill\b/i,
-	/\bkillall\b/i,
-	/\breboot\b/i,
-	/\bshutdown\b/i,
-	/\bsystemctl\s+(start|stop|restart|enable|disable)\b/i,
-	/\bservice\s+\S+\s+(start|stop|restart)\b/i,
-	/\b(vim?|nano|emacs|code|subl)\b/i,
-];
-
-const SAFE_PATTERNS = [
-	/^\s*cat\b/,
-	/^\s*head\b/,
-	/^\s*tail\b/,
-	/^\s*less\b/,
-	/^\s*more\b/,
-	/^\s*grep\b/,
-	/^\s*find\b/,
-	/^\s*ls\b/,
-	/^\s*pwd\b/,
-	/^\s*echo\b/,
-	/^\s*printf\b/,
-	/^\s*wc\b/,
-	/^\s*sort\b/,
-	/^\s*uniq\b/,
-	/^\s*diff\b/,
-	/^\s*file\b/,
-	/^\s*stat\b/,
-	/^\s*du\b/,
-	/^\s*df\b/,
-	/^\s*tree\b/,
-	/^\s*which\b/,
-	/^\s*whereis\b/,
-	/^\s*type\b/,
-	/^\s*env\b/,
-	/^\s*printenv\b/,
-	/^\s*uname\b/,
-	/^\s*whoami\b/,
-	/^\s*id\b/,
-	/^\s*date\b/,
-	/^\s*cal\b/,
-	/^\s*uptime\b/,
-	/^\s*ps\b/,
-	/^\s*top\b/,
-	/^\s*htop\b/,
-	/^\s*free\b/,
-	/^\s*git\s+(status|log|diff|show|branch|remote|config\s+--get)\b/i,
-	/^\s*git\s+ls-/i,
-	/^\s*npm\s+(list|ls|view|info|search|outdated|audit)\b/i,
-	/^\s*yarn\s+(list|info|why|audit)\b/i,
-	/^\s*node\s+--version\b/i,
-	/^\s*python\s+--version\b/i,
-	/^\s*jq\b/,
-	/^\s*sed\s+-n\b/i,
-	/^\s*awk\b/,
-	/^\s*rg\b/,
-	/^\s*fd\b/,
-];
-
-export function isSafeReadOnlyCommand(command: string): boolean {
-	const isDestructive = DESTRUCTIVE_PATTERNS.some((pattern) => pattern.test(command));
-	if (isDestructive) return false;
-	return SAFE_PATTERNS.some((pattern) => pattern.test(command));
-}
-
 export function normalizeArg(input: string): string {
 	return input.trim().toLowerCase();
 }
 
-export interface TodoItem {
+export interface PlanStep {
+	id: string;
 	step: number;
 	text: string;
+	fullText: string;
+	files: string[];
+	validation: string[];
+	risks: string[];
+}
+
+export interface TodoItem extends PlanStep {
 	completed: boolean;
+	skipped?: boolean;
+	blocked?: boolean;
+	note?: string;
+	/** Files edited while this step was in progress during execution. */
+	touchedFiles?: string[];
+	/** Bash commands run while this step was in progress during execution. */
+	commands?: string[];
+	/** Execution timing: first activity, completion, and the turns/tool calls spent on the step. */
+	startedAt?: number;
+	finishedAt?: number;
+	turns?: number;
+	toolCalls?: number;
+	children: TodoItem[];
+}
+
+export type StepProgressStatus = "done" | "blocked" | "skipped";
+
+export interface ExtractedPlan {
+	steps: TodoItem[];
+	risks: string[];
 }
 
 export function cleanStepText(text: string): string {
@@ -119,58 +56,433 @@ export function cleanStepText(text: string): string {
 	return cleaned;
 }
 
-export function extractTodoItems(message: string): TodoItem[] {
-	const items: TodoItem[] = [];
-	const headerMatch = message.match(/\*{0,2}Plan:\*{0,2}\s*\n/i);
-	if (!headerMatch) return items;
+const PLAN_SECTION_END_PATTERN =
+	/^\s*(?:#{1,6}\s*|\d+\)\s*)?\**\s*(?:risks?(?:\s*(?:and|&|\/)\s*rollback)?(?:\s*notes?)?|rollback(?:\s*notes?)?)\s*\**\s*:?\s*\**\s*(?:\(.*\))?\s*$/i;
+const READY_LINE_PATTERN = /ready to execute when approved/i;
+const FILES_LABEL_PATTERN =
+	/^\**\s*(?:target\s+)?(?:files?|paths?|components?|targets?)(?:\s*\/\s*components?)?\s*\**\s*:\s*\**\s*/i;
+const VALIDATION_LABEL_PATTERN =
+	/^\**\s*(?:validation(?:\s+method)?|validate|verify|verification|tests?|checks?)\s*\**\s*:\s*\**\s*/i;
+const RISK_LABEL_PATTERN = /^\**\s*(?:risks?|rollback)\s*\**\s*:\s*\**\s*/i;
+
+function stripMarkdown(text: string): string {
+	return text
+		.replace(/\*{1,2}([^*]+)\*{1,2}/g, "$1")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function isPathLike(candidate: string): boolean {
+	return (
+		/^[\w.@~*{}\[\]/-]+$/.test(candidate) &&
+		(candidate.includes("/") ||
+			candidate.includes("*") ||
+			/\.[A-Za-z0-9]+$/.test(candidate))
+	);
+}
+
+export function extractPaths(text: string, requireBackticks = false): string[] {
+	const quoted = [...text.matchAll(/`([^`]+)`/g)].map((match) => match[1].trim());
+	const candidates =
+		quoted.length > 0 || requireBackticks
+			? quoted
+			: text.split(/[\s,;]+/).map((part) => part.replace(/^[("']+|[)"'.:]+$/g, ""));
+	return [...new Set(candidates.filter(isPathLike))];
+}
+
+function extractCommands(text: string): string[] {
+	const quoted = [...text.matchAll(/`([^`]+)`/g)].map((match) => match[1].trim());
+	const commands = quoted.length > 0 ? quoted : [stripMarkdown(text)];
+	return commands.filter((command) => command.length > 0);
+}
+
+export interface PlanSectionOptions {
+	/** Heading that introduces the numbered steps (default `Plan`). */
+	stepsHeading?: string;
+	/** Other section headings of the output contract; each one ends the step list. */
+	sectionHeadings?: string[];
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function sectionHeadingPattern(heading: string): RegExp {
+	return new RegExp(
+		`^\\s*(?:#{1,6}\\s*|\\d+\\)\\s*)?\\**\\s*${escapeRegExp(heading)}\\s*\\**\\s*:?\\s*\\**\\s*(?:\\(.*\\))?\\s*$`,
+		"i",
+	);
+}
+
+function splitPlanSections(
+	message: string,
+	options: PlanSectionOptions = {},
+): { plan: string; risks: string } | undefined {
+	const stepsHeading = options.stepsHeading ?? "Plan";
+	const headerMatch = message.match(
+		new RegExp(`\\*{0,2}${escapeRegExp(stepsHeading)}:\\*{0,2}\\s*\\n`, "i"),
+	);
+	if (!headerMatch) return undefined;
 
-	const planSection = message.slice(
+	const afterHeader = message.slice(
 		message.indexOf(headerMatch[0]) + headerMatch[0].length,
 	);
-	const numberedPattern = /^\s*(\d+)[.)]\s+\*{0,2}([^*\n]+)/gm;
-
-	for (const match of planSection.matchAll(numberedPattern)) {
-		const text = match[2]
-			.trim()
-			.replace(/\*{1,2}$/, "")
-			.trim();
-		if (
-			text.length > 5 &&
-			!text.startsWith("`") &&
-			!text.startsWith("/") &&
-			!text.startsWith("-")
-		) {
+	const lines = afterHeader.split("\n");
+	const otherSections = (options.sectionHeadings ?? [])
+		.filter((heading) => heading.toLowerCase() !== stepsHeading.toLowerCase())
+		.map(sectionHeadingPattern);
+	const isSectionStart = (line: string) =>
+		READY_LINE_PATTERN.test(line) || otherSections.some((pattern) => pattern.test(line));
+	const riskStart = lines.findIndex((line) => PLAN_SECTION_END_PATTERN.test(line));
+	const sectionStart = lines.findIndex(isSectionStart);
+	const planEnd = [riskStart, sectionStart].filter((index) => index !== -1);
+	const planLines = lines.slice(
+		0,
+		planEnd.length > 0 ? Math.min(...planEnd) : lines.length,
+	);
+
+	let riskLines: string[] = [];
+	if (riskStart !== -1) {
+		const riskEnd = lines.findIndex(
+			(line, index) => index > riskStart && isSectionStart(line),
+		);
+		riskLines = lines.slice(riskStart + 1, riskEnd === -1 ? lines.length : riskEnd);
+	}
+	return { plan: planLines.join("\n"), risks: riskLines.join("\n") };
+}
+
+export function flattenSteps(items: TodoItem[]): TodoItem[] {
+	return items.flatMap((item) => [item, ...flattenSteps(item.children)]);
+}
+
+export function cloneTodoItems(items: TodoItem[], resetProgress = false): TodoItem[] {
+	return items.map((item) => ({
+		...item,
+		files: [...item.files],
+		validation: [...item.validation],
+		risks: [...item.risks],
+		completed: resetProgress ? false : item.completed,
+		touchedFiles: resetProgress ? undefined : item.touchedFiles && [...item.touchedFiles],
+		commands: resetProgress ? undefined : item.commands && [...item.commands],
+		startedAt: resetProgress ? undefined : item.startedAt,
+		finishedAt: resetProgress ? undefined : item.finishedAt,
+		turns: resetProgress ? undefined : item.turns,
+		toolCalls: resetProgress ? undefined : item.toolCalls,
+		children: cloneTodoItems(item.children, resetProgress),
+	}));
+}
+
+export function findStep(items: TodoItem[], id: string): TodoItem | undefined {
+	return flattenSteps(items).find((candidate) => candidate.id === id);
+}
+
+export function locateStep(
+	items: TodoItem[],
+	id: string,
+): { siblings: TodoItem[]; index: number } | undefined {
+	const index = items.findIndex((item) => item.id === id);
+	if (index !== -1) {
+		return { siblings: items, index };
+	}
+	for (const item of items) {
+		const located = locateStep(item.children, id);
+		if (located) return located;
+	}
+	return undefined;
+}
+
+export function renumberSteps(items: TodoItem[], prefix = ""): void {
+	items.forEach((item, index) => {
+		item.step = index + 1;
+		item.id = `${prefix}${item.step}`;
+		renumberSteps(item.children, `${item.id}.`);
+	});
+}
+
+export function createTodoItem(text: string): TodoItem {
+	const fullText = stripMarkdown(text);
+	return {
+		id: "",
+		step: 0,
+		text: cleanStepText(fullText),
+		fullText,
+		files: extractPaths(text, true),
+		validation: [],
+		risks: [],
+		completed: false,
+		children: [],
+	};
+}
+
+/** Replaces the step's text; the first line is the title and the rest stay detail lines. */
+export function updateStepText(item: TodoItem, text: string): void {
+	const [title, ...details] = text
+		.split("\n")
+		.map(stripMarkdown)
+		.filter((line) => line.length > 0);
+	const edited = createTodoItem(title ?? "");
+	item.text = edited.text;
+	item.fullText = [edited.fullText, ...details].join("\n");
+	item.files = [...new Set([...item.files, ...extractPaths(text, true)])];
+}
+
+function assignRisk(risk: string, steps: TodoItem[]): boolean {
+	const stepReference = risk.match(/\bsteps?\s+(\d+(?:\.\d+)*)/i);
+	if (stepReference) {
+		const step = findStep(steps, stepReference[1]);
+		if (step) {
+			step.risks.push(risk);
+			return true;
+		}
+	}
+
+	const mentioned = flattenSteps(steps).filter((step) =>
+		step.files.some((file) => risk.includes(file)),
+	);
+	for (const step of mentioned) {
+		step.risks.push(risk);
+	}
+	return mentioned.length > 0;
+}
+
+export function extractPlan(
+	message: string,
+	options: PlanSectionOptions = {},
+): ExtractedPlan {
+	const sections = splitPlanSections(message, options);
+	if (!sections) return { steps: [], risks: [] };
+
+	const steps: TodoItem[] = [];
+	const numberedPattern = /^(\s*)(\d+(?:\.\d+)+[.)]?|\d+[.)])\s+(.*)$/;
+	const stack: Array<{ indent: number; item: TodoItem }> = [];
+	let stepIndent: number | undefined;
+
+	for (const line of sections.plan.split("\n")) {
+		const numbered = line.match(numberedPattern);
+		if (numbered) {
+			const text = stripMarkdown(numbered[3]);
 			const cleaned = cleanStepText(text);
-			if (cleaned.length > 3) {
-				items.push({
-					step: items.length + 1,
+			if (
+				text.length > 5 &&
+				!text.startsWith("`") &&
+				!text.startsWith("/") &&
+				!text.startsWith("-") &&
+				cleaned.length > 3
+			) {
+				const indent = numbered[1].length;
+				const depth = numbered[2].replace(/[.)]$/, "").split(".").length - 1;
+				stepIndent ??= indent;
+				if (depth > 0) {
+					stack.length = Math.min(stack.length, depth);
+				} else if (indent <= stepIndent) {
+					stack.length = 0;
+				} else {
+					while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+						stack.pop();
+					}
+				}
+
+				const parent = stack[stack.length - 1]?.item;
+				const siblings = parent ? parent.children : steps;
+				const step = siblings.length + 1;
+				const item: TodoItem = {
+					id: parent ? `${parent.id}.${step}` : String(step),
+					step,
 					text: cleaned,
+					fullText: text,
+					files: extractPaths(text, true),
+					validation: [],
+					risks: [],
 					completed: false,
-				});
+					children: [],
+				};
+				siblings.push(item);
+				stack.push({ indent, item });
+				continue;
 			}
 		}
+
+		const current = stack[stack.length - 1]?.item;
+		if (!current) continue;
+		const detail = line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim();
+		if (detail.length === 0) continue;
+
+		if (FILES_LABEL_PATTERN.test(detail)) {
+			const paths = extractPaths(detail.replace(FILES_LABEL_PATTERN, ""));
+			current.files = [...new Set([...current.files, ...paths])];
+			continue;
+		}
+		if (VALIDATION_LABEL_PATTERN.test(detail)) {
+			current.validation.push(
+				...extractCommands(detail.replace(VALIDATION_LABEL_PATTERN, "")),
+			);
+			continue;
+		}
+		if (RISK_LABEL_PATTERN.test(detail)) {
+			current.risks.push(stripMarkdown(detail.replace(RISK_LABEL_PATTERN, "")));
+			continue;
+		}
+		current.fullText = `${current.fullText}\n${stripMarkdown(detail)}`;
 	}
-	return items;
-}
 
-export function extractDoneSteps(message: string): number[] {
-	const steps: number[] = [];
-	for (const match of message.matchAll(/\[DONE:(\d+)\]/gi)) {
-		const step = Number(match[1]);
-		if (Number.isFinite(step)) {
-			steps.push(step);
+	const risks: string[] = [];
+	for (const line of sections.risks.split("\n")) {
+		const risk = stripMarkdown(line.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, ""));
+		if (risk.length === 0) continue;
+		if (!assignRisk(risk, steps)) {
+			risks.push(risk);
 		}
 	}
-	return steps;
+
+	return { steps, risks };
+}
+
+export function extractTodoItems(message: string): TodoItem[] {
+	return extractPlan(message).steps;
+}
+
+function formatStepDetails(item: PlanStep): string[] {
+	const details = item.fullText.split("\n").slice(1);
+	if (item.files.length > 0) {
+		details.push(`Files: ${item.files.join(", ")}`);
+	}
+	if (item.validation.length > 0) {
+		details.push(`Validation: ${item.validation.join("; ")}`);
+	}
+	if (item.risks.length > 0) {
+		details.push(`Risks: ${item.risks.join("; ")}`);
+	}
+	return details;
+}
+
+export function countCompleted(items: TodoItem[]): number {
+	return items.filter((item) => item.completed).length;
+}
+
+export function formatStepContract(item: TodoItem, indent = ""): string {
+	const [title] = item.fullText.split("\n");
+	const nested = `${indent}   `;
+	return [
+		`${indent}${item.id}. ${title}`,
+		...formatStepDetails(item).map((line) => `${nested}${line}`),
+		...item.children
+			.filter((child) => !child.completed)
+			.map((child) => formatStepContract(child, nested)),
+	].join("\n");
+}
+
+export function formatStepActivity(item: TodoItem): string[] {
+	const touchedFiles = item.touchedFiles ?? [];
+	const commands = item.commands ?? [];
+	return [
+		touchedFiles.length > 0 ? `Touched: ${touchedFiles.join(", ")}` : "",
+		commands.length > 0 ? `Ran: ${commands.join("; ")}` : "",
+	].filter((line) => line.length > 0);
+}
+
+export function formatDuration(milliseconds: number): string {
+	const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	if (hours > 0) return `${hours}h ${minutes}m`;
+	if (minutes > 0) return `${minutes}m ${seconds}s`;
+	return `${seconds}s`;
+}
+
+export function formatStepTiming(item: TodoItem, now = Date.now()): string | undefined {
+	if (item.startedAt === undefined) {
+		return undefined;
+	}
+	const turns = item.turns ?? 0;
+	const toolCalls = item.toolCalls ?? 0;
+	return [
+		formatDuration((item.finishedAt ?? now) - item.startedAt),
+		`${turns} turn${turns === 1 ? "" : "s"}`,
+		`${toolCalls} tool call${toolCalls === 1 ? "" : "s"}`,
+	].join(" · ");
+}
+
+export function formatTodoTree(
+	items: TodoItem[],
+	options: { detail?: boolean } = {},
+	indent = "",
+): string[] {
+	const nested = `${indent}   `;
+	return items.flatMap((item) => {
+		const progress =
+			item.children.length > 0
+				? ` (${countCompleted(item.children)}/${item.children.length})`
+				: "";
+		const marker = item.skipped ? "↷" : item.completed ? "✓" : item.blocked ? "⊘" : "○";
+		const note = item.note ? [`Note: ${item.note}`] : [];
+		const timing = formatStepTiming(item);
+		const activity = options.detail ? formatStepActivity(item) : [];
+		return [
+			`${indent}${item.id}. ${marker} ${item.text}${progress}`,
+			...[
+				...formatStepDetails(item),
+				...note,
+				...(timing ? [`Time: ${timing}`] : []),
+				...activity,
+			].map((line) => `${nested}${line}`),
+			...formatTodoTree(item.children, options, nested),
+		];
+	});
+}
+
+export function extractDoneSteps(message: string): string[] {
+	return [...message.matchAll(/\[DONE:(\d+(?:\.\d+)*)\]/gi)].map((match) => match[1]);
+}
+
+export function setStepCompletion(
+	item: TodoItem,
+	completed: boolean,
+	skipped = false,
+): void {
+	item.completed = completed;
+	item.skipped = skipped || undefined;
+	item.blocked = undefined;
+	item.finishedAt = completed ? (item.finishedAt ?? Date.now()) : undefined;
+	for (const child of item.children) {
+		setStepCompletion(child, completed, skipped);
+	}
+}
+
+export function syncParentCompletion(items: TodoItem[]): void {
+	for (const item of items) {
+		if (item.children.length === 0) continue;
+		syncParentCompletion(item.children);
+		item.completed = item.children.every((child) => child.completed);
+		item.skipped = item.children.every((child) => child.skipped) || undefined;
+	}
+}
+
+export function applyStepProgress(
+	items: TodoItem[],
+	item: TodoItem,
+	status: StepProgressStatus,
+	note?: string,
+): void {
+	if (status === "blocked") {
+		item.completed = false;
+		item.skipped = undefined;
+		item.blocked = true;
+	} else {
+		setStepCompletion(item, true, status === "skipped");
+	}
+	item.note = note?.trim() || item.note;
+	syncParentCompletion(items);
 }
 
 export function markCompletedSteps(text: string, items: TodoItem[]): number {
 	const doneSteps = extractDoneSteps(text);
-	for (const step of doneSteps) {
-		const item = items.find((candidate) => candidate.step === step);
+	for (const id of doneSteps) {
+		const item = findStep(items, id);
 		if (item) {
-			item.completed = true;
+			setStepCompletion(item, true);
 		}
 	}
+	syncParentCompletion(items);
 	return doneSteps.length;
 }
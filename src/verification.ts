@@ -0,0 +1,56 @@
+import { flattenSteps, type TodoItem } from "./utils";
+
+export type VerificationMode = "off" | "ask" | "auto";
+
+export const VERIFICATION_MODES: readonly VerificationMode[] = ["off", "ask", "auto"];
+
+export const DEFAULT_VERIFICATION_MODE: VerificationMode = "ask";
+
+export interface VerificationResult {
+	id: string;
+	passed: boolean;
+	detail: string;
+}
+
+export function collectValidationSteps(items: TodoItem[]): TodoItem[] {
+	return flattenSteps(items).filter((item) => !item.skipped && item.validation.length > 0);
+}
+
+export function buildVerificationPrompt(steps: TodoItem[]): string {
+	const checks = steps.map(
+		(item) => `${item.id}. ${item.text}\n   Validation: ${item.validation.join("; ")}`,
+	);
+	return `[PLAN VERIFICATION]
+All plan steps are marked complete. Run the validation declared for each step below and do not change any code.
+${checks.join("\n")}
+
+Report one line per step in this exact format:
+[VERIFY:<step id>] PASS <short evidence>
+[VERIFY:<step id>] FAIL <what failed>`;
+}
+
+export function extractVerificationResults(message: string): VerificationResult[] {
+	const results = new Map<string, VerificationResult>();
+	for (const match of message.matchAll(
+		/\[VERIFY:(\d+(?:\.\d+)*)\]\s*(PASS|FAIL)\b[\s:—-]*(.*)/gi,
+	)) {
+		results.set(match[1], {
+			id: match[1],
+			passed: match[2].toUpperCase() === "PASS",
+			detail: match[3].trim(),
+		});
+	}
+	return [...results.values()];
+}
+
+export function formatVerificationReport(
+	steps: TodoItem[],
+	results: VerificationResult[],
+): string[] {
+	return steps.map((item) => {
+		const result = results.find((candidate) => candidate.id === item.id);
+		const marker = !result ? "?" : result.passed ? "✓" : "✗";
+		const detail = result?.detail ? ` — ${result.detail}` : result ? "" : " — not reported";
+		return `${marker} ${item.id}. ${item.text}${detail}`;
+	});
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	CHECKPOINT_REF_PREFIX,
+	createCheckpoint,
+	deleteCheckpoints,
+	isRollbackArgs,
+	restoreCheckpoint,
+} from "../src/checkpoints";
+
+function createRepository(): string {
+	const cwd = mkdtempSync(join(tmpdir(), "pi-plan-"));
+	execFileSync("git", ["init", "--quiet"], { cwd });
+	execFileSync("git", ["config", "user.name", "test"], { cwd });
+	execFileSync("git", ["config", "user.email", "test@example.com"], { cwd });
+	writeFileSync(join(cwd, "a.txt"), "a\n");
+	return cwd;
+}
+
+describe("isRollbackArgs", () => {
+	test.each([[[]], [["3"]], [["2.1."]], [["--yes"]], [["4", "--yes"]], [["--yes", "4)"]]])(
+		"accepts %p",
+		(args) => {
+			expect(isRollbackArgs(args)).toBe(true);
+		},
+	);
+
+	test.each([[["the", "failed", "migration"]], [["3", "4"]], [["--yes", "--yes"]], [["step3"]]])(
+		"rejects %p",
+		(args) => {
+			expect(isRollbackArgs(args)).toBe(false);
+		},
+	);
+});
+
+describe("deleteCheckpoints", () => {
+	test("removes the checkpoint refs", async () => {
+		const cwd = createRepository();
+		const listRefs = () =>
+			execFileSync("git", ["for-each-ref", CHECKPOINT_REF_PREFIX], { cwd, encoding: "utf8" });
+
+		const checkpoint = await createCheckpoint(cwd, 1, "plan approved", "1");
+		expect(listRefs()).toContain(checkpoint.commit);
+		await deleteCheckpoints(cwd, [checkpoint, checkpoint]);
+		expect(listRefs()).toBe("");
+	});
+});
+
+describe("restoreCheckpoint", () => {
+	test("removes files created after the checkpoint but keeps pi-plan's own files", async () => {
+		const cwd = createRepository();
+		const checkpoint = await createCheckpoint(cwd, 1, "plan approved", "1");
+
+		writeFileSync(join(cwd, "b.txt"), "b\n");
+		mkdirSync(join(cwd, ".pi", "plans"), { recursive: true });
+		writeFileSync(join(cwd, ".pi", "plans", "saved.json"), "{}\n");
+		writeFileSync(join(cwd, ".pi", "pi-plan.json"), "{}\n");
+		writeFileSync(join(cwd, ".pi", "pi-plan-summary.md"), "# Summary\n");
+		writeFileSync(join(cwd, ".pi", "pi-plan-blocked.jsonl"), "{}\n");
+		await restoreCheckpoint(cwd, checkpoint);
+
+		expect(existsSync(join(cwd, "a.txt"))).toBe(true);
+		expect(existsSync(join(cwd, "b.txt"))).toBe(false);
+		for (const path of [
+			"plans/saved.json",
+			"pi-plan.json",
+			"pi-plan-summary.md",
+			"pi-plan-blocked.jsonl",
+		]) {
+			expect(existsSync(join(cwd, ".pi", path))).toBe(true);
+		}
+	});
+});
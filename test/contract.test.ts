@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { formatContractSummary, getContractIssues, lintPlanContract } from "../src/contract";
+import { DEFAULT_TEMPLATE_NAME, getBuiltInTemplates } from "../src/templates";
+
+const template = getBuiltInTemplates().find((entry) => entry.name === DEFAULT_TEMPLATE_NAME)!;
+
+const COMPLETE_PLAN = `## Goal understanding
+Add rate limiting to the signup endpoint.
+
+## Evidence gathered
+- \`src/api/signup.ts\` handles the request.
+
+## Uncertainties / assumptions
+- Assuming Redis is available.
+
+## Plan
+1. Add the limiter middleware
+2. Cover it with tests
+
+## Risks and rollback notes
+Revert the middleware commit.
+
+Ready to execute when approved.`;
+
+describe("lintPlanContract", () => {
+	test("scores a complete plan at 100%", () => {
+		const report = lintPlanContract(COMPLETE_PLAN, template, 2);
+		expect(report.sections.every((section) => section.status === "ok")).toBe(true);
+		expect(report.hasReadyLine).toBe(true);
+		expect(report.score).toBe(100);
+		expect(getContractIssues(report)).toEqual([]);
+		expect(formatContractSummary(report)).toBeUndefined();
+	});
+
+	test("reports missing sections and the missing ready line", () => {
+		const message = COMPLETE_PLAN.replace(/## Evidence gathered\n.*\n\n/, "").replace(
+			"Ready to execute when approved.",
+			"",
+		);
+		const report = lintPlanContract(message, template, 2);
+		expect(report.sections.find((section) => section.heading === "Evidence gathered")).toEqual({
+			heading: "Evidence gathered",
+			status: "missing",
+		});
+		expect(report.hasReadyLine).toBe(false);
+		expect(report.score).toBe(67);
+		expect(getContractIssues(report)).toEqual([
+			"Missing: Evidence gathered",
+			'No "Ready to execute when approved." line',
+		]);
+	});
+
+	test("treats placeholder-only bodies as empty", () => {
+		const message = COMPLETE_PLAN.replace("Revert the middleware commit.", "- TBD");
+		const report = lintPlanContract(message, template, 2);
+		expect(report.sections.at(-1)).toEqual({
+			heading: "Risks and rollback notes",
+			status: "empty",
+		});
+		expect(formatContractSummary(report)).toBe(
+			"Output contract 83%: Empty: Risks and rollback notes",
+		);
+	});
+
+	test("marks the steps section empty when no steps were extracted", () => {
+		const report = lintPlanContract(COMPLETE_PLAN, template, 0);
+		expect(report.sections.find((section) => section.heading === "Plan")?.status).toBe("empty");
+		expect(getContractIssues(report)).toEqual(["No extractable plan steps"]);
+	});
+
+	test("accepts heading variants and inline bodies", () => {
+		const message = COMPLETE_PLAN.replace(
+			"## Uncertainties / assumptions\n- Assuming Redis is available.",
+			"**Assumptions:** Redis is available.",
+		).replace("## Risks and rollback notes", "5) Risks (rollback)");
+		const report = lintPlanContract(message, template, 2);
+		expect(report.score).toBe(100);
+	});
+});
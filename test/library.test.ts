@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	createSavedPlan,
+	isPlanLibraryCommand,
+	readPlanFile,
+	type SavedPlan,
+	writePlanFile,
+} from "../src/library";
+import { createTodoItem, renumberSteps } from "../src/utils";
+
+describe("isPlanLibraryCommand", () => {
+	test.each([
+		["list", []],
+		["save", ["auth-rework"]],
+		["load", ["auth-rework"]],
+		["import", ["docs/plan.md"]],
+		["import", ["plan.json"]],
+		["export", []],
+		["export", ["--json"]],
+		["export", ["--md", "out/plan.md"]],
+	])("treats /plan %s %p as a library command", (subcommand, args) => {
+		expect(isPlanLibraryCommand(subcommand, args)).toBe(true);
+	});
+
+	test.each([
+		["list", ["all", "open", "bugs"]],
+		["save", ["the", "draft", "to", "localStorage"]],
+		["save", ["plan.json"]],
+		["load", ["test", "fixtures", "lazily"]],
+		["import", ["lodash", "per", "method"]],
+		["export", ["the", "report", "as", "csv"]],
+	])("treats /plan %s %p as a task", (subcommand, args) => {
+		expect(isPlanLibraryCommand(subcommand, args)).toBe(false);
+	});
+});
+
+describe("markdown export", () => {
+	const roundTrip = (risks: string[]): SavedPlan => {
+		const steps = [createTodoItem("Add the users table migration")];
+		renumberSteps(steps);
+		const path = join(mkdtempSync(join(tmpdir(), "pi-plan-")), "plan.md");
+		expect(writePlanFile(path, createSavedPlan("plan", steps, risks, null), "md")).toBeUndefined();
+		const plan = readPlanFile(path);
+		if (typeof plan === "string") throw new Error(plan);
+		return plan;
+	};
+
+	test("imports the exported risks", () => {
+		expect(roundTrip(["Data loss if the backfill fails"]).risks).toEqual([
+			"Data loss if the backfill fails",
+		]);
+	});
+
+	test("imports no risks from a plan without any", () => {
+		expect(roundTrip([]).risks).toEqual([]);
+	});
+
+	test("exports under the template's steps heading and imports it with the active template", () => {
+		const steps = [createTodoItem("Add a regression test for the crash")];
+		renumberSteps(steps);
+		const path = join(mkdtempSync(join(tmpdir(), "pi-plan-")), "plan.md");
+		const bugfix = { stepsHeading: "Fix plan", sectionHeadings: ["Root cause", "Fix plan"] };
+		writePlanFile(path, createSavedPlan("plan", steps, [], "bugfix"), "md", "Fix plan");
+		expect(readFileSync(path, "utf8")).toContain("Template: bugfix\n\nFix plan:\n");
+
+		const plan = readPlanFile(path, (template) => (template === "bugfix" ? bugfix : {}));
+		if (typeof plan === "string") throw new Error(plan);
+		expect(plan.template).toBe("bugfix");
+		expect(plan.steps.map((step) => step.fullText)).toEqual([
+			"Add a regression test for the crash",
+		]);
+	});
+
+	test("falls back to the Plan: heading", () => {
+		const path = join(mkdtempSync(join(tmpdir(), "pi-plan-")), "plan.md");
+		writeFileSync(path, "Plan:\n1. Update the changelog entry\n");
+		const plan = readPlanFile(path, () => ({ stepsHeading: "Fix plan" }));
+		if (typeof plan === "string") throw new Error(plan);
+		expect(plan.steps).toHaveLength(1);
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { validatePolicyFile } from "../src/policy";
+
+describe("validatePolicyFile", () => {
+	test("accepts a complete policy", () => {
+		expect(
+			validatePolicyFile({
+				$schema: "./pi-plan.schema.json",
+				bash: { allow: ["^npm test$"], deny: ["^rm "] },
+				tools: { readOnly: ["lsp"], writeLike: ["deploy"] },
+				prompts: { plan: "Plan carefully.", yolo: "Go." },
+				execution: { fileScope: "block", verify: "auto", checkpoints: false },
+				audit: { jsonl: true },
+				contract: { autoReprompt: true },
+				stall: { turns: 0, toolCalls: 20, minutes: 5, prompt: false },
+				suggest: { enabled: true, keywords: ["refactor"], minLength: 200, minDirectories: 2 },
+			}),
+		).toEqual([]);
+	});
+
+	test.each([[null], [[]], ["bash"], [1]])("rejects a non-object top level (%p)", (raw) => {
+		expect(validatePolicyFile(raw)).toEqual(["expected a JSON object at the top level"]);
+	});
+
+	test("reports unknown sections and fields", () => {
+		expect(validatePolicyFile({ shell: {}, audit: { csv: true } })).toEqual([
+			'unknown key "shell" (expected: bash, tools, prompts, execution, audit, contract, stall, suggest)',
+			'unknown key "audit.csv" (expected: jsonl)',
+		]);
+	});
+
+	test("reports mistyped values", () => {
+		expect(
+			validatePolicyFile({
+				tools: "lsp",
+				execution: { fileScope: "strict", checkpoints: "yes" },
+				stall: { turns: -1 },
+				prompts: { plan: "  " },
+				bash: { allow: "^npm test$", deny: ["", "("] },
+			}),
+		).toEqual([
+			'"tools" must be an object',
+			'"execution.fileScope" must be one of: off, warn, ask, block',
+			'"execution.checkpoints" must be true or false',
+			'"stall.turns" must be a non-negative number (0 disables it)',
+			'"prompts.plan" must be a non-empty string',
+			'"bash.allow" must be an array of strings',
+			'"bash.deny[0]" must be a non-empty string',
+			expect.stringMatching(/^"bash\.deny\[1\]" is not a valid regular expression: /),
+		]);
+	});
+});
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { buildClarificationMessage, extractClarifyingQuestions } from "../src/questions";
+
+describe("extractClarifyingQuestions", () => {
+	test("returns nothing without a questions section", () => {
+		expect(
+			extractClarifyingQuestions(
+				"## Plan\n1. Should we add tests?\n\nReady to execute when approved.",
+			),
+		).toEqual([]);
+	});
+
+	test("collects only list items that ask something", () => {
+		const message = `## Goal understanding
+Add a signup rate limit.
+
+## Uncertainties / assumptions
+- Assuming Redis is available.
+- Should the limit apply per IP?
+- Is **10/minute** acceptable?
+
+## Plan
+1. Does this count?`;
+		expect(extractClarifyingQuestions(message)).toEqual([
+			{ text: "Should the limit apply per IP?", options: [] },
+			{ text: "Is 10/minute acceptable?", options: [] },
+		]);
+	});
+
+	test("reads options from indented sub-items", () => {
+		const message = `## Open questions
+1. Which store should hold the counters?
+   - Redis
+   - In-memory or Postgres
+   - Redis`;
+		expect(extractClarifyingQuestions(message)).toEqual([
+			{
+				text: "Which store should hold the counters?",
+				options: ["Redis", "In-memory", "Postgres"],
+			},
+		]);
+	});
+
+	test("reads options from an Options: label", () => {
+		const message = `## Clarifying questions
+- Where should the limiter live?
+  Options: middleware / route handler | gateway`;
+		expect(extractClarifyingQuestions(message)[0]).toEqual({
+			text: "Where should the limiter live?",
+			options: ["middleware", "route handler", "gateway"],
+		});
+	});
+
+	test("reads trailing lettered options", () => {
+		const message = `## Questions
+- Which response code? (a) 429, (b) 503`;
+		expect(extractClarifyingQuestions(message)).toEqual([
+			{ text: "Which response code?", options: ["429", "503"] },
+		]);
+	});
+});
+
+describe("buildClarificationMessage", () => {
+	test("numbers each answered question", () => {
+		const message = buildClarificationMessage([
+			{ question: "Which store?", answer: "Redis" },
+			{ question: "Which code?", answer: "429" },
+		]);
+		expect(message).toContain("1. Q: Which store?\n   A: Redis\n2. Q: Which code?\n   A: 429");
+	});
+});
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { isPathInScope } from "../src/scope";
+
+const CWD = "/repo";
+
+describe("isPathInScope", () => {
+	test.each([
+		["src/api/signup.ts", ["src/api/signup.ts"]],
+		["./src/api/signup.ts", ["src/api/signup.ts"]],
+		["/repo/src/api/signup.ts", ["src/api/signup.ts"]],
+		["src/db/schema.ts", ["src/db/"]],
+		["src/db/migrations/001.sql", ["src/db"]],
+		["src/api/signup.ts", ["src/*/signup.ts"]],
+		["src/api/v2/signup.test.ts", ["src/**/*.test.ts"]],
+		["signup.test.ts", ["**/*.test.ts"]],
+		["src/api/signup.ts", ["src/api/*.{ts,tsx}"]],
+		["docs/a.md", ["docs/?.md"]],
+	])("%s is in scope of %p", (path, scope) => {
+		expect(isPathInScope(path, scope, CWD)).toBe(true);
+	});
+
+	test.each([
+		["src/api/signup.ts", ["src/api/login.ts"]],
+		["src/dbx/schema.ts", ["src/db"]],
+		["src/api/v2/signup.ts", ["src/*/signup.ts"]],
+		["src/api/signup.js", ["src/api/*.{ts,tsx}"]],
+		["docs/ab.md", ["docs/?.md"]],
+		["/elsewhere/src/api/signup.ts", ["src/api/signup.ts"]],
+		["src/api/signup.ts", []],
+	])("%s is out of scope of %p", (path, scope) => {
+		expect(isPathInScope(path, scope, CWD)).toBe(false);
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { analyzeBashCommand, explainBashCommand } from "../src/shell-analyzer";
+
+function expectAllowed(command: string): void {
+	const verdict = analyzeBashCommand(command);
+	expect(verdict.reason).toBeUndefined();
+	expect(verdict.allowed).toBe(true);
+}
+
+function expectBlocked(command: string, segment?: string): void {
+	const verdict = analyzeBashCommand(command);
+	expect(verdict.allowed).toBe(false);
+	expect(verdict.reason).toBeString();
+	if (segment !== undefined) {
+		expect(verdict.segment).toBe(segment);
+	}
+}
+
+describe("analyzeBashCommand", () => {
+	describe("read-only commands", () => {
+		test.each([
+			'grep -r "rm" .',
+			"echo a > /dev/null",
+			"cat package.json | jq .version",
+			"ls -la && git status",
+			"git log --oneline -5",
+			"git diff HEAD~1 -- src",
+			"git show HEAD:README.md",
+			"git grep -n parseShell",
+			"git ls-remote origin",
+			"rg -n --pre-glob '*.gz' foo",
+			"sort -u names.txt",
+			"xxd -c 16 in.bin",
+			"find . -name '*.ts' -exec grep -l foo {} +",
+			"sed -n '1,20p' src/index.ts",
+			"awk '{print $1}' file",
+			"FOO=1 ls",
+			"env LANG=C sort file",
+		])("allows %s", (command) => {
+			expectAllowed(command);
+		});
+	});
+
+	describe("backlog cases", () => {
+		test("find -delete", () => expectBlocked("find . -name '*.tmp' -delete"));
+		test("find -exec rm", () => expectBlocked("find . -exec rm {} \\;"));
+		test("sed -i after -n", () => expectBlocked("sed -n p -i file"));
+		test("awk system()", () => expectBlocked("awk '{system(\"rm -rf /\")}' file"));
+		test("git branch -m", () => expectBlocked("git branch -m old new"));
+		test("xargs rm", () => expectBlocked("ls | xargs rm", "xargs rm"));
+		test("env FOO=1 rm", () => expectBlocked("env FOO=1 rm -rf build"));
+		test("blocked segment in a chain", () => expectBlocked("cat a && rm -rf b", "rm -rf b"));
+		test("command substitution", () => expectBlocked("echo $(rm -rf b)"));
+		test("backticks", () => expectBlocked("echo `touch x`"));
+		test("output redirection", () => expectBlocked("echo a > out.txt"));
+	});
+
+	describe("programs run through allowlisted commands", () => {
+		test.each([
+			"git ls-remote --upload-pack='touch /tmp/pwned; false' .",
+			"git ls-remote -u 'touch /tmp/pwned' .",
+			"git fetch-pack --exec=evil .",
+			"git archive --exec=evil --remote=origin HEAD",
+			"GIT_SSH_COMMAND='touch /tmp/pwned' git ls-remote origin",
+			"env GIT_EXTERNAL_DIFF=/tmp/evil git diff",
+			"PAGER=./evil git log",
+			"LESSOPEN='|./evil %s' less file",
+			"git --exec-path=/tmp/evil status",
+			"git diff --ext-diff",
+			"git show --output=x HEAD",
+			"git log --output=x",
+			"git diff-tree --output x HEAD",
+			"git grep --open-files-in-pager=vim foo",
+			"git grep -Ovim foo",
+			"rg --pre ./evil.sh foo",
+			"rg --pre=./evil.sh foo",
+			"sort --compress-program=sh f",
+			"xxd in.bin out.txt",
+		])("blocks %s", (command) => {
+			expectBlocked(command);
+		});
+	});
+
+	describe("arguments the analyzer cannot see", () => {
+		test.each([
+			"echo $(( $(rm -rf x) + 1 ))",
+			"echo $(( `touch x` ))",
+			"X=-i; sed $X p file",
+			"O=--output=x; git log $O",
+			'git log "$O"',
+			"sort {-o,out} in",
+			"sed -n {-i,p} file",
+			"sed -n {'-i',p} file",
+			"git log {--output=x,}",
+		])("blocks %s", (command) => {
+			expectBlocked(command);
+		});
+
+		test("allows expanded arguments of commands without argument checks", () => {
+			expectAllowed('grep -rn "$PATTERN" src');
+			expectAllowed("cat {a,b}.txt");
+		});
+
+		test("allows arithmetic without substitutions", () => {
+			expectAllowed("echo $(( 1 + 2 ))");
+		});
+	});
+
+	describe("sed commands that write or execute", () => {
+		test.each([
+			"sed -n 'wout.txt' in",
+			"sed -n '1~2w f' in",
+			"sed -n '/x/{w f' in",
+			"sed -n '/x/!{w f}' in",
+			"sed -n '/x/Iw f' in",
+			"sed '1e date' in",
+			"sed -n 'W out' in",
+		])("blocks %s", (command) => {
+			expectBlocked(command);
+		});
+	});
+
+	test("policy deny wins over the allowlist", () => {
+		const verdict = analyzeBashCommand("git log", { allow: [], deny: [/^git log\b/] });
+		expect(verdict.allowed).toBe(false);
+		expect(verdict.rule).toBe("bash.deny /^git log\\b/");
+	});
+
+	test("policy allow admits a command", () => {
+		const verdict = analyzeBashCommand("kubectl get pods", { allow: [/^kubectl get\b/], deny: [] });
+		expect(verdict.allowed).toBe(true);
+	});
+});
+
+describe("explainBashCommand", () => {
+	test("names the rule for every segment", () => {
+		const { verdict, segments } = explainBashCommand("cat a | grep x && rm -rf b");
+		expect(verdict.allowed).toBe(false);
+		expect(segments.map((segment) => [segment.segment, segment.allowed, segment.rule])).toEqual([
+			["cat a", true, "read-only command allowlist ('cat')"],
+			["grep x", true, "read-only command allowlist ('grep')"],
+			["rm -rf b", false, "read-only command allowlist"],
+		]);
+	});
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyStepProgress,
+	createTodoItem,
+	extractPlan,
+	flattenSteps,
+	markCompletedSteps,
+	type TodoItem,
+	updateStepText,
+} from "../src/utils";
+
+const PLAN_MESSAGE = `Plan:
+1. Set up the database layer
+   1.1 Create the users table
+   1.2 Add an index on users.email
+2. Wire the signup endpoint
+   - Files: \`src/api/signup.ts\`, \`src/db/\`
+   - Validation: \`npm test -- signup\`
+   - Risk: existing clients send camelCase fields
+   - Keep the response shape unchanged
+3. Document the endpoint
+    1. Describe the request body
+    2. Describe the error codes
+
+Risks and rollback notes:
+- Step 1 migration locks the users table
+- Deploy during low traffic
+
+Ready to execute when approved.`;
+
+function extractSteps(): TodoItem[] {
+	return extractPlan(PLAN_MESSAGE).steps;
+}
+
+describe("extractPlan", () => {
+	test("nests dotted and indented sub-steps under their parent", () => {
+		const steps = extractSteps();
+		expect(flattenSteps(steps).map((step) => step.id)).toEqual([
+			"1",
+			"1.1",
+			"1.2",
+			"2",
+			"3",
+			"3.1",
+			"3.2",
+		]);
+		expect(steps[0].children.map((step) => step.fullText)).toEqual([
+			"Create the users table",
+			"Add an index on users.email",
+		]);
+	});
+
+	test("reads files, validation, risks, and detail lines of a step", () => {
+		const step = extractSteps()[1];
+		expect(step.files).toEqual(["src/api/signup.ts", "src/db/"]);
+		expect(step.validation).toEqual(["npm test -- signup"]);
+		expect(step.risks).toEqual(["existing clients send camelCase fields"]);
+		expect(step.fullText).toBe("Wire the signup endpoint\nKeep the response shape unchanged");
+	});
+
+	test("assigns step-specific risks to their step and keeps the rest general", () => {
+		const { steps, risks } = extractPlan(PLAN_MESSAGE);
+		expect(steps[0].risks).toEqual(["Step 1 migration locks the users table"]);
+		expect(risks).toEqual(["Deploy during low traffic"]);
+	});
+
+	test("finds no steps without the steps heading", () => {
+		expect(extractPlan("1. Set up the database layer").steps).toEqual([]);
+	});
+});
+
+describe("markCompletedSteps", () => {
+	test("completes a parent once all of its sub-steps are done", () => {
+		const steps = extractSteps();
+		expect(markCompletedSteps("[DONE:1.1]", steps)).toBe(1);
+		expect(steps[0].completed).toBe(false);
+		markCompletedSteps("Finished the index. [DONE:1.2]", steps);
+		expect(steps[0].completed).toBe(true);
+	});
+
+	test("completes the sub-steps of a parent marked done", () => {
+		const steps = extractSteps();
+		markCompletedSteps("[DONE:3]", steps);
+		expect(steps[2].children.every((step) => step.completed)).toBe(true);
+	});
+
+	test("ignores unknown step ids", () => {
+		const steps = extractSteps();
+		expect(markCompletedSteps("[DONE:9]", steps)).toBe(1);
+		expect(flattenSteps(steps).some((step) => step.completed)).toBe(false);
+	});
+});
+
+describe("applyStepProgress", () => {
+	test("marks a step blocked with a note and leaves it open", () => {
+		const steps = extractSteps();
+		applyStepProgress(steps, steps[1], "blocked", " waiting for the API key ");
+		expect(steps[1]).toMatchObject({
+			completed: false,
+			blocked: true,
+			note: "waiting for the API key",
+		});
+	});
+
+	test("skipping the last open sub-step completes the parent", () => {
+		const steps = extractSteps();
+		applyStepProgress(steps, steps[0].children[0], "done");
+		applyStepProgress(steps, steps[0].children[1], "skipped");
+		expect(steps[0].children[1]).toMatchObject({ completed: true, skipped: true });
+		expect(steps[0].completed).toBe(true);
+		expect(steps[0].skipped).toBeUndefined();
+	});
+
+	test("completing a blocked step clears the block but keeps its note", () => {
+		const steps = extractSteps();
+		applyStepProgress(steps, steps[1], "blocked", "waiting for the API key");
+		applyStepProgress(steps, steps[1], "done");
+		expect(steps[1]).toMatchObject({ completed: true, note: "waiting for the API key" });
+		expect(steps[1].blocked).toBeUndefined();
+	});
+});
+
+describe("updateStepText", () => {
+	test("keeps detail lines on their own lines", () => {
+		const item = createTodoItem("Add the migration");
+		updateStepText(item, "Add the **users** migration\nBackfill existing rows\n\nKeep ids stable");
+		expect(item.text).not.toContain("Backfill");
+		expect(item.fullText).toBe("Add the users migration\nBackfill existing rows\nKeep ids stable");
+	});
+
+	test("collects paths from every line", () => {
+		const item = createTodoItem("Update the schema");
+		updateStepText(item, "Update the schema\nTouches `src/db/schema.ts`");
+		expect(item.files).toContain("src/db/schema.ts");
+	});
+});